@@ -1,45 +1,60 @@
 import { Duration } from "../../lib/core.ts";
-import { createTextSceneRenderer } from "../text-scene.ts";
+import { AssetLibrary, loadBrowserImage } from "../../lib/images.ts";
+import { Player } from "../../lib/player.ts";
+import { createTextSceneRenderer, textSceneImages } from "../text-scene.ts";
 import "./style.css";
 
 document.querySelector<HTMLDivElement>("#app")!.innerHTML = `
 	<div>
 		<canvas id="c" width="300" height="300"></canvas>
+		<button id="p">Play</button>
 		<input type="range" id="r" min="0" max="450">
 	</div>
 `;
 
 const canvas = document.querySelector<HTMLCanvasElement>("#c")!;
+const playButton = document.querySelector<HTMLButtonElement>("#p")!;
 const rangeInput = document.querySelector<HTMLInputElement>("#r")!;
 
 const canvasContext = canvas.getContext("2d")!;
 
-let renderTextScene = createTextSceneRenderer(canvasContext);
+// Images are loaded once, and shared with scenes reloaded by hot updates
+const assets = new AssetLibrary((source) =>
+	loadBrowserImage(new URL(`../${source}`, import.meta.url).href)
+);
+await assets.loadAll(textSceneImages);
 
-function render(frame: number) {
-	canvasContext.clearRect(0, 0, canvas.width, canvas.height);
-	const painter = renderTextScene.at(new Duration(frame));
-	painter(canvasContext);
-}
+const player = new Player(
+	createTextSceneRenderer(canvasContext, assets),
+	canvasContext,
+	60,
+	{ loop: true },
+);
 
-render(0);
+player.on("timeupdate", (time) => {
+	rangeInput.value = time.frame.toString();
+});
+player.on("play", () => playButton.textContent = "Pause");
+player.on("pause", () => playButton.textContent = "Play");
 
-rangeInput.max = renderTextScene.duration.frame.toString();
+player.render();
 
-function renderCurrentTime() {
-	render(Number.parseFloat(rangeInput.value));
-}
+rangeInput.max = player.duration.frame.toString();
 
-rangeInput.addEventListener("input", () => renderCurrentTime());
+playButton.addEventListener("click", () => player.toggle());
 
-rangeInput.value = "0";
+rangeInput.addEventListener("input", () => {
+	player.pause();
+	player.seek(new Duration(Number.parseFloat(rangeInput.value)));
+});
 
 if (import.meta.hot) {
 	import.meta.hot.accept("../text-scene.ts", (newModule) => {
 		if (newModule) {
-			renderTextScene = newModule.createTextSceneRenderer(canvasContext);
-			rangeInput.max = renderTextScene.duration.frame.toString();
-			renderCurrentTime();
+			player.setAnimation(
+				newModule.createTextSceneRenderer(canvasContext, assets),
+			);
+			rangeInput.max = player.duration.frame.toString();
 		}
 	});
 }
@@ -0,0 +1,72 @@
+import { Canvas, loadImage } from "npm:@napi-rs/canvas";
+import { AssetLibrary } from "../../lib/images.ts";
+import { createRawRgbaEncoder } from "../../lib/render.ts";
+import { parseCsv, renderBatch } from "../../lib/scene.ts";
+import { Point } from "../../lib/std.ts";
+import { createTextScene, textSceneImages } from "../text-scene.ts";
+
+const size: Point = { x: 300, y: 300 };
+const frameRate = 60;
+
+function createContext({ x, y }: Point): CanvasRenderingContext2D {
+	const canvas = new Canvas(x, y);
+	return canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+}
+
+// Images are loaded once, and shared by every variant
+const assets = new AssetLibrary((source) => loadImage(`examples/${source}`));
+await assets.loadAll(textSceneImages);
+
+// Rows are read from a CSV or JSON file, with a `name` column for the output
+const dataPath = Deno.args[0] ?? "examples/server/batch.csv";
+const data = await Deno.readTextFile(dataPath);
+const rows = dataPath.endsWith(".json") ? JSON.parse(data) : parseCsv(data);
+
+/** Uses the `name` column for the file, unless it could escape the directory. */
+function outputName(row: Record<string, unknown>, index: number): string {
+	const name = typeof row.name === "string" ? row.name.trim() : "";
+	return /^[\w-][\w .-]*$/.test(name) && !name.includes("..")
+		? name
+		: `${index}`;
+}
+
+await renderBatch({
+	scene: createTextScene(assets),
+	rows,
+	createContext,
+	size,
+	createEncoder: ({ index, row }) => {
+		const command = new Deno.Command("ffmpeg", {
+			args: [
+				"-f",
+				"rawvideo",
+				"-s",
+				`${size.x}x${size.y}`,
+				"-r",
+				`${frameRate}`,
+				"-pix_fmt",
+				"rgba",
+				"-i",
+				"-",
+				"-y",
+				`text-scene-${outputName(row, index)}.g.mp4`,
+			],
+			stdin: "piped",
+			stderr: "null",
+		});
+		const child = command.spawn();
+		const writer = child.stdin.getWriter();
+		return createRawRgbaEncoder(
+			(chunk) => writer.write(chunk),
+			async () => {
+				await writer.close();
+				await child.status;
+			},
+		);
+	},
+	onProgress: ({ rendered, total, completed, items }) => {
+		if (rendered === total) {
+			console.log(`Rendered ${completed + 1}/${items} videos`);
+		}
+	},
+});
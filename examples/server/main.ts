@@ -1,20 +1,29 @@
-import { Canvas } from "npm:@napi-rs/canvas";
-import { Duration } from "../../lib/core.ts";
-import { createTextSceneRenderer } from "../text-scene.ts";
-
-const canvas = new Canvas(300, 300);
-const canvasContext = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+import { Canvas, loadImage } from "npm:@napi-rs/canvas";
+import { AssetLibrary } from "../../lib/images.ts";
+import { createRawRgbaEncoder, renderAnimation } from "../../lib/render.ts";
+import { Point } from "../../lib/std.ts";
+import { createTextSceneRenderer, textSceneImages } from "../text-scene.ts";
+
+const size: Point = { x: 300, y: 300 };
+const frameRate = 60;
+
+function createContext({ x, y }: Point): CanvasRenderingContext2D {
+	const canvas = new Canvas(x, y);
+	return canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+}
 
-const renderTextScene = createTextSceneRenderer(canvasContext);
+// Images are loaded once, before the animation which uses them is created
+const assets = new AssetLibrary((source) => loadImage(`examples/${source}`));
+await assets.loadAll(textSceneImages);
 
-function render(frame: number) {
-	canvasContext.clearRect(0, 0, canvas.width, canvas.height);
-	const painter = renderTextScene.at(new Duration(frame));
-	painter(canvasContext);
-}
+// An audio file can be passed as an argument, to be muxed into the video
+const audioPath = Deno.args[0];
+const audioArgs = audioPath
+	? ["-i", audioPath, "-c:a", "aac", "-shortest"]
+	: [];
 
 const command = new Deno.Command("ffmpeg", {
-	args: ["-f", "rawvideo", "-s", "300x300", "-r", "60", "-pix_fmt", "rgba", "-i", "-", "-y", "text-scene.g.mp4"],
+	args: ["-f", "rawvideo", "-s", `${size.x}x${size.y}`, "-r", `${frameRate}`, "-pix_fmt", "rgba", "-i", "-", ...audioArgs, "-y", "text-scene.g.mp4"],
 	stdin: 'piped',
 });
 
@@ -22,10 +31,19 @@ const child = command.spawn();
 
 const writer = child.stdin.getWriter();
 
-for (let i = 0; i < renderTextScene.duration.frame + 1; i++) {
-	render(i);
-	await writer.write(canvas.data());
-}
+await renderAnimation({
+	animation: createTextSceneRenderer(createContext(size), assets),
+	createContext,
+	size,
+	encoder: createRawRgbaEncoder(
+		(chunk) => writer.write(chunk),
+		() => writer.close(),
+	),
+	onProgress: ({ rendered, total }) => {
+		if (rendered % frameRate === 0 || rendered === total) {
+			console.log(`Rendered ${rendered}/${total} frames`);
+		}
+	},
+});
 
-await writer.close();
 await child.output();
@@ -9,6 +9,9 @@ import {
 	StaggeredAnimation,
 } from "../lib/core.ts";
 import { easings } from "../lib/easings.ts";
+import { createGroupPainter } from "../lib/group.ts";
+import { AssetLibrary, createImagePainter } from "../lib/images.ts";
+import { defineScene } from "../lib/scene.ts";
 import {
 	animateTextSlice,
 	createTextPainter,
@@ -37,19 +40,18 @@ function createTextFloatUpAnimation(
 	x: number,
 	fromY: number,
 	toY: number,
-	settingsBase: Omit<TextSettings, "position" | "fillStyle">,
+	settingsBase: Omit<TextSettings, "position">,
 	animSettings: AnimationSettings,
-): Animation<TextSettings> {
+): Animation<Painter> {
 	return fromAnimationProperties({
 		y: tweenNumber({ from: fromY, to: toY, easing: easings.easeOutBack, ...animSettings }),
 		opacity: tweenNumber({ from: 0, to: 1, ...animSettings }),
 	})
 		.derive(
-			({ y, opacity }) => ({
-				...settingsBase,
-				position: { x, y },
-				fillStyle: `rgba(255, 0, 0, ${opacity})`,
-			}),
+			({ y, opacity }) =>
+				createGroupPainter({ opacity }, [
+					createTextPainter({ ...settingsBase, position: { x, y } }),
+				]),
 		);
 }
 
@@ -57,8 +59,9 @@ function createPerWordFloatUpAnimations(
 	words: string[],
 	context: CanvasRenderingContext2D,
 	baseX: number,
+	fillStyle: string,
 	eachAnimSettings: AnimationSettings,
-): Animation<TextSettings>[] {
+): Animation<Painter>[] {
 	const font = "20px sans-serif";
 	context.font = font;
 	const wordWidths = getWordWidths(words, context);
@@ -68,34 +71,86 @@ function createPerWordFloatUpAnimations(
 			baseX + wordOffsets[i],
 			120,
 			90,
-			{ text: word, font },
+			{ text: word, font, fillStyle },
 			eachAnimSettings,
 		)
 	);
 }
 
+/**
+ * The images used by the text scene, relative to the `examples` folder. They
+ * should be loaded into the scene's `AssetLibrary` before building it.
+ */
+export const textSceneImages = { logo: "logo.svg" };
+
+function createLogoSlideInAnimation(
+	assets: AssetLibrary,
+	duration: Duration,
+): Animation<Painter> {
+	const image = assets.get(textSceneImages.logo);
+	return tweenNumber({
+		from: -64,
+		to: 20,
+		duration,
+		easing: easings.easeOutBack,
+	})
+		.derive((x) =>
+			createImagePainter({
+				image,
+				position: { x, y: 160 },
+				size: { x: 64, y: 64 },
+				fit: "contain",
+			})
+		);
+}
+
+export function createTextScene(assets: AssetLibrary) {
+	return defineScene({
+		params: {
+			title: { type: "string", default: "Hello, world!" },
+			text: { type: "string", default: "This is a test." },
+			color: { type: "string", default: "red" },
+			/** How long typing the title takes, in frames. */
+			titleDuration: { type: "number", default: 240, min: 1 },
+			/** How long each word of the text floats up, in frames. */
+			wordDuration: { type: "number", default: 60, min: 1 },
+		},
+		build: (params, { context }) =>
+			paintAll(
+				new ArrayAnimation([
+					animateTextSlice(params.title, {
+						duration: new Duration(params.titleDuration),
+					})
+						.derive(
+							(text) => ({
+								text,
+								position: { x: 20, y: 20 },
+								fillStyle: "white",
+							}),
+						)
+						.derive(createTextPainter),
+					createLogoSlideInAnimation(assets, new Duration(60)),
+					paintAll(
+						new StaggeredAnimation(
+							createPerWordFloatUpAnimations(
+								// Keep the spaces, so they are included in the word widths
+								params.text.split(/(?<= )/),
+								context,
+								20,
+								params.color,
+								{ duration: new Duration(params.wordDuration) },
+							),
+						),
+					),
+				]),
+			),
+	});
+}
+
 export function createTextSceneRenderer(
 	context: CanvasRenderingContext2D,
+	assets: AssetLibrary,
 ): Animation<Painter> {
-	return paintAll(new ArrayAnimation([
-		animateTextSlice("Hello, world!", { duration: new Duration(240) })
-			.derive(
-				(text) => ({
-					text,
-					position: { x: 20, y: 20 },
-					fillStyle: "white",
-				}),
-			)
-			.derive(createTextPainter),
-		paintAll(
-			new StaggeredAnimation(
-				createPerWordFloatUpAnimations(
-					["This ", "is ", "a ", "test."],
-					context,
-					20,
-					{ duration: new Duration(60) },
-				).map((anim) => anim.derive(createTextPainter)),
-			),
-		),
-	]));
+	const size = { x: context.canvas.width, y: context.canvas.height };
+	return createTextScene(assets).build({}, { context, size });
 }
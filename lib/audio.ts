@@ -0,0 +1,289 @@
+import {
+	Animation,
+	CallbackAnimation,
+	clampTime,
+	Duration,
+	Timed,
+} from "./core.ts";
+
+/** Decoded audio, with the samples of each channel from -1 to 1. */
+export type PcmAudio = {
+	sampleRate: number;
+	channels: Float32Array[];
+};
+
+const formatPcm = 1;
+const formatFloat = 3;
+const formatExtensible = 0xfffe;
+
+function readSample(
+	view: DataView,
+	offset: number,
+	format: number,
+	bitsPerSample: number,
+): number {
+	if (format === formatFloat) {
+		return bitsPerSample === 64
+			? view.getFloat64(offset, true)
+			: view.getFloat32(offset, true);
+	}
+	switch (bitsPerSample) {
+		case 8:
+			// 8 bit samples are unsigned, the others are signed
+			return (view.getUint8(offset) - 128) / 128;
+		case 16:
+			return view.getInt16(offset, true) / 0x8000;
+		case 24: {
+			const value = view.getUint8(offset) |
+				(view.getUint8(offset + 1) << 8) |
+				(view.getInt8(offset + 2) << 16);
+			return value / 0x800000;
+		}
+		case 32:
+			return view.getInt32(offset, true) / 0x80000000;
+	}
+	throw new Error(`Unsupported WAV sample size of ${bitsPerSample} bits`);
+}
+
+type WavFormat = {
+	tag: number;
+	channels: number;
+	sampleRate: number;
+	bits: number;
+};
+
+/**
+ * Decodes a PCM WAV file, with 8, 16, 24 or 32 bit integer samples, or 32 or
+ * 64 bit float samples.
+ *
+ * @throws {SyntaxError} When the data isn't a valid WAV file.
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): PcmAudio {
+	const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const tag = (offset: number) =>
+		String.fromCharCode(...bytes.subarray(offset, offset + 4));
+	if (bytes.length < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+		throw new SyntaxError("Invalid WAV file, missing RIFF/WAVE header");
+	}
+
+	let format: WavFormat | undefined;
+	let offset = 12;
+	while (offset + 8 <= bytes.length) {
+		const id = tag(offset);
+		const size = view.getUint32(offset + 4, true);
+		const body = offset + 8;
+		if (id === "fmt ") {
+			let formatTag = view.getUint16(body, true);
+			if (formatTag === formatExtensible) {
+				// The actual format is the start of the sub-format GUID
+				formatTag = view.getUint16(body + 24, true);
+			}
+			format = {
+				tag: formatTag,
+				channels: view.getUint16(body + 2, true),
+				sampleRate: view.getUint32(body + 4, true),
+				bits: view.getUint16(body + 14, true),
+			};
+			if (format.channels === 0) {
+				throw new SyntaxError("Invalid WAV file, format has no channels");
+			}
+			if (![8, 16, 24, 32, 64].includes(format.bits)) {
+				throw new SyntaxError(
+					`Invalid WAV file, samples can't have ${format.bits} bits`,
+				);
+			}
+		} else if (id === "data") {
+			if (!format) {
+				throw new SyntaxError("Invalid WAV file, data comes before format");
+			}
+			if (format.tag !== formatPcm && format.tag !== formatFloat) {
+				throw new Error(`Unsupported WAV format ${format.tag}`);
+			}
+			const sampleSize = format.bits / 8;
+			const frameSize = sampleSize * format.channels;
+			// Files which are cut off still decode all their complete frames
+			const length = Math.floor(
+				Math.min(size, bytes.length - body) / frameSize,
+			);
+			const channels = Array.from(
+				{ length: format.channels },
+				() => new Float32Array(length),
+			);
+			for (let i = 0; i < length; i++) {
+				for (let channel = 0; channel < format.channels; channel++) {
+					channels[channel][i] = readSample(
+						view,
+						body + i * frameSize + channel * sampleSize,
+						format.tag,
+						format.bits,
+					);
+				}
+			}
+			return { sampleRate: format.sampleRate, channels };
+		}
+		// Chunks are padded to an even size
+		offset = body + size + (size % 2);
+	}
+	throw new SyntaxError("Invalid WAV file, missing data chunk");
+}
+
+/** Averages all channels into one. */
+export function mixToMono(audio: PcmAudio): Float32Array {
+	const [first, ...rest] = audio.channels;
+	if (!first) return new Float32Array();
+	const mono = Float32Array.from(first);
+	for (const channel of rest) {
+		for (let i = 0; i < mono.length; i++) mono[i] += channel[i];
+	}
+	if (rest.length) {
+		for (let i = 0; i < mono.length; i++) mono[i] /= audio.channels.length;
+	}
+	return mono;
+}
+
+/** The length of the audio, in frames of `frameRate`. */
+export function audioDuration(audio: PcmAudio, frameRate: number): Duration {
+	const samples = audio.channels[0]?.length ?? 0;
+	return Duration.fromSeconds(samples / audio.sampleRate, frameRate);
+}
+
+export type EnvelopeSettings = {
+	/** Frames per second of the animation. */
+	frameRate: number;
+	/**
+	 * How the loudness of a window is measured: `rms` follows the perceived
+	 * loudness, `peak` reacts more to short transients. Defaults to `rms`.
+	 */
+	mode?: "rms" | "peak";
+	/** Length of the window measured for each frame, in frames. Defaults to 1. */
+	window?: number;
+	/**
+	 * How much of the previous value is kept on each frame, from 0 (no
+	 * smoothing) to just below 1. Rising values are smoothed with `attack`,
+	 * falling values with `smoothing`. Defaults to 0.
+	 */
+	smoothing?: number;
+	/** Defaults to 0, so the envelope reacts to rises immediately. */
+	attack?: number;
+	/** When true (the default), the loudest frame has a value of 1. */
+	normalize?: boolean;
+};
+
+/** Computes the loudness of each frame of the audio, see `audioEnvelope`. */
+export function envelopeValues(
+	audio: PcmAudio,
+	settings: EnvelopeSettings,
+): number[] {
+	const {
+		frameRate,
+		mode = "rms",
+		window = 1,
+		smoothing = 0,
+		attack = 0,
+		normalize = true,
+	} = settings;
+	const samples = mixToMono(audio);
+	const samplesPerFrame = audio.sampleRate / frameRate;
+	const windowSamples = Math.max(1, Math.round(window * samplesPerFrame));
+	const count = Math.floor(samples.length * frameRate / audio.sampleRate) + 1;
+	const values: number[] = [];
+	let previous = 0;
+	for (let frame = 0; frame < count; frame++) {
+		// Windows are centered on their frame
+		const center = Math.round(frame * samplesPerFrame);
+		const start = Math.max(0, center - Math.floor(windowSamples / 2));
+		const end = Math.min(samples.length, start + windowSamples);
+		let level = 0;
+		for (let i = start; i < end; i++) {
+			level = mode === "peak"
+				? Math.max(level, Math.abs(samples[i]))
+				: level + samples[i] * samples[i];
+		}
+		if (mode === "rms" && end > start) level = Math.sqrt(level / (end - start));
+		const keep = level > previous ? attack : smoothing;
+		previous = previous * keep + level * (1 - keep);
+		values.push(previous);
+	}
+	const max = values.reduce((max, value) => Math.max(max, value), 0);
+	return normalize && max > 0 ? values.map((value) => value / max) : values;
+}
+
+/**
+ * Creates an `Animation` which evaluates to the loudness of the audio at each
+ * frame, interpolated linearly between frames.
+ */
+export function audioEnvelope(
+	audio: PcmAudio,
+	settings: EnvelopeSettings,
+): Animation<number> {
+	const values = envelopeValues(audio, settings);
+	const valueAt = (time: Duration) => {
+		const frame = Math.max(0, Math.min(values.length - 1, time.frame));
+		const index = Math.floor(frame);
+		const next = values[Math.min(values.length - 1, index + 1)];
+		return values[index] + (next - values[index]) * (frame - index);
+	};
+	return new CallbackAnimation(
+		new Duration(values.length - 1),
+		clampTime,
+		valueAt,
+		(a, b) => valueAt(a) === valueAt(b),
+	);
+}
+
+export type OnsetSettings = {
+	/** Frames per second of the animation. */
+	frameRate: number;
+	/**
+	 * How much the increase in loudness has to exceed its local average to
+	 * count as an onset. Defaults to 1.5.
+	 */
+	sensitivity?: number;
+	/** The minimum time between two onsets, defaults to 100ms. */
+	minInterval?: Duration;
+};
+
+// Analysis windows of about 10ms, short enough to place onsets on a frame
+const analysisRate = 100;
+
+/**
+ * Detects onsets (like drum hits or the start of notes) by looking for sudden
+ * increases in loudness. Each onset has its time and its strength, from 0 to
+ * 1 relative to the strongest onset. The result can be turned into a list of
+ * `Timed` animations for a `SwitchAnimation` or `WindowedAnimation`.
+ */
+export function detectOnsets(
+	audio: PcmAudio,
+	settings: OnsetSettings,
+): Timed<number>[] {
+	const { frameRate, sensitivity = 1.5 } = settings;
+	const minInterval = settings.minInterval ??
+		Duration.fromSeconds(0.1, frameRate);
+	const levels = envelopeValues(audio, {
+		frameRate: analysisRate,
+		normalize: false,
+	});
+	const flux = levels.map((level, i) =>
+		i === 0 ? 0 : Math.max(0, level - levels[i - 1])
+	);
+	// Compare each increase with the average around it, over about half a second
+	const radius = analysisRate / 4;
+	const onsets: Timed<number>[] = [];
+	let last: Duration | undefined;
+	for (let i = 1; i < flux.length - 1; i++) {
+		if (flux[i] <= flux[i - 1] || flux[i] < flux[i + 1]) continue;
+		const from = Math.max(0, i - radius);
+		const to = Math.min(flux.length, i + radius + 1);
+		let sum = 0;
+		for (let j = from; j < to; j++) sum += flux[j];
+		const average = sum / (to - from);
+		if (flux[i] <= average * sensitivity || flux[i] < 1e-4) continue;
+		const time = Duration.fromSeconds(i / analysisRate, frameRate);
+		if (last && time.subtract(last).isLessThan(minInterval)) continue;
+		onsets.push({ time, value: flux[i] });
+		last = time;
+	}
+	const max = onsets.reduce((max, onset) => Math.max(max, onset.value), 0);
+	return onsets.map((onset) => ({ ...onset, value: onset.value / max }));
+}
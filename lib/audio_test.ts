@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import {
+	audioEnvelope,
+	decodeWav,
+	detectOnsets,
+	envelopeValues,
+	PcmAudio,
+} from "./audio.ts";
+import { Duration } from "./core.ts";
+
+const frames = (frame: number) => new Duration(frame);
+
+type Chunk = [id: string, body: Uint8Array];
+
+function riff(chunks: Chunk[]): Uint8Array<ArrayBuffer> {
+	const size = chunks.reduce(
+		(size, [, body]) => size + 8 + body.length + (body.length % 2),
+		4,
+	);
+	const bytes = new Uint8Array(8 + size);
+	const view = new DataView(bytes.buffer);
+	const writeTag = (offset: number, tag: string) =>
+		bytes.set([...tag].map((char) => char.charCodeAt(0)), offset);
+	writeTag(0, "RIFF");
+	view.setUint32(4, size, true);
+	writeTag(8, "WAVE");
+	let offset = 12;
+	for (const [id, body] of chunks) {
+		writeTag(offset, id);
+		view.setUint32(offset + 4, body.length, true);
+		bytes.set(body, offset + 8);
+		offset += 8 + body.length + (body.length % 2);
+	}
+	return bytes;
+}
+
+function fmt(tag: number, channels: number, sampleRate: number, bits: number) {
+	const body = new Uint8Array(16);
+	const view = new DataView(body.buffer);
+	const blockAlign = channels * bits / 8;
+	view.setUint16(0, tag, true);
+	view.setUint16(2, channels, true);
+	view.setUint32(4, sampleRate, true);
+	view.setUint32(8, sampleRate * blockAlign, true);
+	view.setUint16(12, blockAlign, true);
+	view.setUint16(14, bits, true);
+	return body;
+}
+
+Deno.test("decodes interleaved 16 bit samples", () => {
+	const samples = new Int16Array([0, -0x8000, 0x4000, 0x2000]);
+	const audio = decodeWav(riff([
+		["fmt ", fmt(1, 2, 8000, 16)],
+		["data", new Uint8Array(samples.buffer)],
+	]));
+	assert.equal(audio.sampleRate, 8000);
+	assert.deepEqual(audio.channels, [
+		new Float32Array([0, 0.5]),
+		new Float32Array([-1, 0.25]),
+	]);
+});
+
+Deno.test("decodes float samples and skips unknown chunks", () => {
+	const samples = new Float32Array([0.25, -0.5, 1]);
+	const audio = decodeWav(
+		riff([
+			["fmt ", fmt(3, 1, 44100, 32)],
+			["LIST", new Uint8Array(3)],
+			["data", new Uint8Array(samples.buffer)],
+		]).buffer,
+	);
+	assert.equal(audio.sampleRate, 44100);
+	assert.deepEqual(audio.channels, [samples]);
+});
+
+Deno.test("decodes 8 and 24 bit samples", () => {
+	const unsigned = decodeWav(riff([
+		["fmt ", fmt(1, 1, 8000, 8)],
+		["data", new Uint8Array([128, 0, 192])],
+	]));
+	assert.deepEqual(unsigned.channels, [new Float32Array([0, -1, 0.5])]);
+	const wide = decodeWav(riff([
+		["fmt ", fmt(1, 1, 8000, 24)],
+		["data", new Uint8Array([0, 0, 0x40, 0, 0, 0x80])],
+	]));
+	assert.deepEqual(wide.channels, [new Float32Array([0.5, -1])]);
+});
+
+Deno.test("decodes the complete frames of cut off files", () => {
+	const bytes = riff([
+		["fmt ", fmt(1, 1, 8000, 16)],
+		["data", new Uint8Array(new Int16Array([0x4000, 0x4000]).buffer)],
+	]);
+	const audio = decodeWav(bytes.subarray(0, bytes.length - 1));
+	assert.deepEqual(audio.channels, [new Float32Array([0.5])]);
+});
+
+Deno.test("rejects invalid WAV files", () => {
+	assert.throws(() => decodeWav(new Uint8Array(4)), SyntaxError);
+	assert.throws(
+		() => decodeWav(riff([["data", new Uint8Array(2)]])),
+		SyntaxError,
+	);
+	assert.throws(
+		() => decodeWav(riff([["fmt ", fmt(1, 1, 8000, 16)]])),
+		SyntaxError,
+	);
+	assert.throws(
+		() =>
+			decodeWav(riff([
+				["fmt ", fmt(2, 1, 8000, 16)],
+				["data", new Uint8Array(2)],
+			])),
+		/Unsupported WAV format 2/,
+	);
+});
+
+Deno.test("rejects formats without channels or with odd sample sizes", () => {
+	for (const format of [fmt(1, 0, 8000, 16), fmt(1, 1, 8000, 12)]) {
+		assert.throws(
+			() => decodeWav(riff([["fmt ", format], ["data", new Uint8Array(2)]])),
+			SyntaxError,
+		);
+	}
+});
+
+/** Mono audio with one sample per frame at a frame rate of 10. */
+const mono = (...samples: number[]): PcmAudio => ({
+	sampleRate: 10,
+	channels: [new Float32Array(samples)],
+});
+
+const rounded = (values: number[]) =>
+	values.map((value) => Math.round(value * 100) / 100);
+
+Deno.test("measures the rms or peak loudness of each frame", () => {
+	const audio = mono(0, 1, -1, 0.5, 0);
+	const settings = { frameRate: 10, window: 2, normalize: false };
+	assert.deepEqual(
+		rounded(envelopeValues(audio, settings)),
+		[0.71, 0.71, 1, 0.79, 0.35, 0],
+	);
+	assert.deepEqual(
+		envelopeValues(audio, { ...settings, mode: "peak" }),
+		[1, 1, 1, 1, 0.5, 0],
+	);
+});
+
+Deno.test("smooths rising and falling loudness separately", () => {
+	const audio = mono(1, 0, 0, 1, 1);
+	const settings = { frameRate: 10, mode: "peak", normalize: false } as const;
+	assert.deepEqual(
+		envelopeValues(audio, { ...settings, smoothing: 0.5 }),
+		[1, 0.5, 0.25, 1, 1, 0.5],
+	);
+	assert.deepEqual(
+		envelopeValues(audio, { ...settings, smoothing: 0.5, attack: 0.5 }),
+		[0.5, 0.25, 0.125, 0.5625, 0.78125, 0.390625],
+	);
+});
+
+Deno.test("interpolates the normalized envelope between frames", () => {
+	const envelope = audioEnvelope(mono(0, 0.5, 0.25), {
+		frameRate: 10,
+		mode: "peak",
+	});
+	assert.deepEqual(envelope.duration, frames(3));
+	assert.deepEqual(
+		[0, 1, 1.5, 2, 3, 5].map((frame) => envelope.at(frames(frame))),
+		[0, 1, 0.75, 0.5, 0, 0],
+	);
+});
+
+Deno.test("detects the clicks of a click track", () => {
+	const samples = new Float32Array(1000);
+	// Clicks of 10ms at 0.2s, 0.5s (at half the volume) and 0.8s
+	for (const [start, volume] of [[200, 1], [500, 0.5], [800, 1]]) {
+		samples.fill(volume, start, start + 10);
+	}
+	const audio = { sampleRate: 1000, channels: [samples] };
+	assert.deepEqual(detectOnsets(audio, { frameRate: 30 }), [
+		{ time: frames(6), value: 1 },
+		{ time: frames(15), value: 0.5 },
+		{ time: frames(24), value: 1 },
+	]);
+	assert.deepEqual(
+		detectOnsets(audio, { frameRate: 30, minInterval: frames(12) })
+			.map((onset) => onset.time),
+		[frames(6), frames(24)],
+	);
+});
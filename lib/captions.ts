@@ -0,0 +1,327 @@
+import {
+	Animation,
+	animationFromKeyframes,
+	ConstantAnimation,
+	Duration,
+	Painter,
+	SwitchAnimation,
+	Timed,
+} from "./core.ts";
+import { easings } from "./easings.ts";
+import { createGroupPainter } from "./group.ts";
+import {
+	createRRectPainter,
+	createTextPainter,
+	lerpNumber,
+	noopPainterAnim,
+	Point,
+	Style,
+} from "./std.ts";
+
+/*
+ * Captions are represented as a list of `Timed<string>` values, where each
+ * caption starts at its time and lasts until the next one. An empty string
+ * hides the captions, so a caption which ends before the next one starts is
+ * followed by an empty one.
+ */
+
+const timestampPattern = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/;
+
+function parseTimestamp(timestamp: string, frameRate: number): Duration {
+	timestamp = timestamp.trim();
+	const match = timestampPattern.exec(timestamp);
+	if (!match) throw new SyntaxError(`Invalid caption timestamp "${timestamp}"`);
+	const [, hours = "0", minutes, seconds, fraction] = match;
+	return Duration.fromSeconds(
+		Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) +
+			Number(fraction.padEnd(3, "0")) / 1000,
+		frameRate,
+	);
+}
+
+const entities: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	nbsp: "\u00A0",
+	lrm: "\u200E",
+	rlm: "\u200F",
+};
+
+/** Removes markup like `<i>` or `<v Speaker>` and decodes entities. */
+function stripMarkup(text: string): string {
+	return text
+		.replace(/<[^>]*>/g, "")
+		.replace(/&(\w+);/g, (entity, name) => entities[name] ?? entity);
+}
+
+type Cue = { start: Duration; end: Duration; text: string };
+
+/** Sorts the cues, and converts them to a list of captions. */
+function cuesToCaptions(cues: Cue[]): Timed<string>[] {
+	const sorted = [...cues].sort((a, b) => a.start.frame - b.start.frame);
+	const captions: Timed<string>[] = [];
+	sorted.forEach((cue, i) => {
+		captions.push({ time: cue.start, value: cue.text });
+		// Overlapping cues are cut off by the next one
+		const next = sorted[i + 1];
+		if (!next || cue.end.isLessThan(next.start)) {
+			captions.push({ time: cue.end, value: "" });
+		}
+	});
+	return captions;
+}
+
+/** Splits the file into blocks separated by empty lines. */
+function splitBlocks(text: string): string[][] {
+	return text
+		.replace(/^\uFEFF/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n{2,}/)
+		.map((block) => block.split("\n").filter((line) => line.trim() !== ""))
+		.filter((lines) => lines.length);
+}
+
+function parseCueBlock(lines: string[], frameRate: number): Cue | undefined {
+	// The optional identifier (or SRT index) comes before the timing line
+	const timingIndex = lines.findIndex((line) => line.includes("-->"));
+	if (timingIndex === -1) return undefined;
+	const [start, rest] = lines[timingIndex].split("-->");
+	// WebVTT cue settings, like `align:start`, come after the end time
+	const end = rest.trim().split(/\s+/)[0];
+	return {
+		start: parseTimestamp(start, frameRate),
+		end: parseTimestamp(end, frameRate),
+		text: stripMarkup(lines.slice(timingIndex + 1).join("\n")),
+	};
+}
+
+/**
+ * Parses captions from a SubRip (`.srt`) file.
+ *
+ * @throws {SyntaxError} When a timestamp is invalid.
+ */
+export function parseSrt(text: string, frameRate: number): Timed<string>[] {
+	return cuesToCaptions(
+		splitBlocks(text).flatMap((lines) => parseCueBlock(lines, frameRate) ?? []),
+	);
+}
+
+/**
+ * Parses captions from a WebVTT (`.vtt`) file. Comments, styles, regions and
+ * cue settings are ignored.
+ *
+ * @throws {SyntaxError} When the header or a timestamp is invalid.
+ */
+export function parseWebVtt(text: string, frameRate: number): Timed<string>[] {
+	const [header, ...blocks] = splitBlocks(text);
+	if (!header?.[0].startsWith("WEBVTT")) {
+		throw new SyntaxError("Invalid WebVTT file, missing WEBVTT header");
+	}
+	return cuesToCaptions(
+		blocks
+			.filter((lines) => !/^(NOTE|STYLE|REGION)\b/.test(lines[0]))
+			.flatMap((lines) => parseCueBlock(lines, frameRate) ?? []),
+	);
+}
+
+function formatTimestamp(time: Duration, frameRate: number): string {
+	const milliseconds = Math.round(time.toSeconds(frameRate) * 1000);
+	const pad = (value: number, length = 2) =>
+		String(value).padStart(length, "0");
+	return `${pad(Math.floor(milliseconds / 3600000))}:` +
+		`${pad(Math.floor(milliseconds / 60000) % 60)}:` +
+		`${pad(Math.floor(milliseconds / 1000) % 60)}.` +
+		pad(milliseconds % 1000, 3);
+}
+
+/**
+ * Formats captions as a WebVTT file. The last caption lasts until `end`, or
+ * is left out if `end` isn't given.
+ */
+export function formatWebVtt(
+	captions: Timed<string>[],
+	frameRate: number,
+	end?: Duration,
+): string {
+	const cues = captions.flatMap((caption, i) => {
+		const cueEnd = captions[i + 1]?.time ?? end;
+		if (!caption.value || !cueEnd || !cueEnd.isGreaterThan(caption.time)) {
+			return [];
+		}
+		return [
+			`${formatTimestamp(caption.time, frameRate)} --> ` +
+			`${formatTimestamp(cueEnd, frameRate)}\n` +
+			caption.value
+				.replaceAll("&", "&amp;")
+				.replaceAll("<", "&lt;")
+				.replaceAll(">", "&gt;"),
+		];
+	});
+	return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+/**
+ * Samples a text animation on every frame, and returns a caption for each
+ * change of its value. This can be used to export the text of a scene (like
+ * a typewriter effect) with `formatWebVtt`.
+ */
+export function captionsFromAnimation(
+	animation: Animation<string>,
+): Timed<string>[] {
+	const captions: Timed<string>[] = [];
+	let previous: Duration | undefined;
+	for (let frame = 0; frame <= animation.duration.frame; frame++) {
+		const time = new Duration(frame);
+		if (previous && animation.isSameAt(previous, time)) continue;
+		previous = time;
+		const value = animation.at(time);
+		if (value !== captions.at(-1)?.value) captions.push({ time, value });
+	}
+	return captions;
+}
+
+export type CaptionSettings = {
+	/** The bottom center of the caption box. */
+	position: Point;
+	/** Lines longer than this are wrapped between words. */
+	maxWidth?: number;
+	/** Defaults to `"20px sans-serif"`. */
+	font?: string;
+	/** Distance between the baselines of lines, defaults to 1.2 × font size. */
+	lineHeight?: number;
+	/** Defaults to white. */
+	fillStyle?: Style;
+	/** A box drawn behind the text, defaults to none. */
+	background?: {
+		fillStyle: Style;
+		padding?: Point;
+		radius?: number;
+	};
+	/** How long each caption fades in and out, defaults to no fade. */
+	fade?: Duration;
+};
+
+/** Splits text into lines no wider than `maxWidth`, keeping line breaks. */
+function wrapText(
+	context: CanvasRenderingContext2D,
+	text: string,
+	maxWidth: number,
+): string[] {
+	return text.split("\n").flatMap((paragraph) => {
+		const lines: string[] = [];
+		let line = "";
+		for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+			const candidate = line ? `${line} ${word}` : word;
+			if (line && context.measureText(candidate).width > maxWidth) {
+				lines.push(line);
+				line = word;
+			} else {
+				line = candidate;
+			}
+		}
+		return [...lines, line];
+	});
+}
+
+/** Creates a painter for a single caption, wrapping it when painting. */
+export function createCaptionPainter(
+	text: string,
+	settings: CaptionSettings,
+): Painter {
+	const {
+		position,
+		maxWidth = Infinity,
+		font = "20px sans-serif",
+		fillStyle = "white",
+		background,
+	} = settings;
+	const fontSize = Number(/(\d*\.?\d+)px/.exec(font)?.[1] ?? 20);
+	const lineHeight = settings.lineHeight ?? fontSize * 1.2;
+	return (context) => {
+		if (!text) return;
+		context.save();
+		context.font = font;
+		// Lines are centered by their measured width, from their left edge
+		context.textAlign = "left";
+		context.textBaseline = "middle";
+		const lines = wrapText(context, text, maxWidth);
+		const widths = lines.map((line) => context.measureText(line).width);
+		const width = Math.max(...widths);
+		const height = lines.length * lineHeight;
+		const top = position.y - height;
+		if (background) {
+			const padding = background.padding ?? { x: 0, y: 0 };
+			createRRectPainter({
+				position: {
+					x: position.x - width / 2 - padding.x,
+					y: top - padding.y,
+				},
+				size: { x: width + padding.x * 2, y: height + padding.y * 2 },
+				radius: background.radius ?? 0,
+				fillStyle: background.fillStyle,
+			})(context);
+		}
+		lines.forEach((line, i) => {
+			createTextPainter({
+				text: line,
+				position: {
+					x: position.x - widths[i] / 2,
+					y: top + lineHeight * (i + 0.5),
+				},
+				font,
+				fillStyle,
+			})(context);
+		});
+		context.restore();
+	};
+}
+
+/**
+ * Creates an `Animation` which paints the current caption, fading each one
+ * in and out. It lasts until the time of the last caption, and paints
+ * nothing when there are no captions.
+ */
+export function animateCaptions(
+	captions: Timed<string>[],
+	settings: CaptionSettings,
+): Animation<Painter> {
+	if (!captions.length) return noopPainterAnim;
+	const fade = settings.fade ?? Duration.zero;
+	// Nothing is shown before the first caption
+	if (captions[0]?.time.isGreaterThan(Duration.zero)) {
+		captions = [{ time: Duration.zero, value: "" }, ...captions];
+	}
+	const timedAnimations = captions.map((caption, i) => {
+		if (!caption.value) return { ...caption, value: noopPainterAnim };
+		const painter = createCaptionPainter(caption.value, settings);
+		const next = captions[i + 1];
+		const duration = next ? next.time.subtract(caption.time) : Duration.zero;
+		// The fades can't take longer than half of the caption
+		const fadeFrames = Math.min(fade.frame, duration.frame / 2);
+		if (!next || fadeFrames <= 0) {
+			return { time: caption.time, value: new ConstantAnimation(painter) };
+		}
+		const opacity = animationFromKeyframes(
+			[
+				{ time: Duration.zero, value: 0 },
+				{ time: new Duration(fadeFrames), value: 1 },
+				{ time: new Duration(duration.frame - fadeFrames), value: 1 },
+				{ time: duration, value: 0 },
+			],
+			lerpNumber,
+			easings.linear,
+		);
+		return {
+			time: caption.time,
+			value: opacity.derive((opacity) =>
+				createGroupPainter({ opacity }, [painter])
+			),
+		};
+	});
+	return new SwitchAnimation(
+		captions.at(-1)?.time ?? Duration.zero,
+		timedAnimations,
+	);
+}
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import {
+	animateCaptions,
+	formatWebVtt,
+	parseSrt,
+	parseWebVtt,
+} from "./captions.ts";
+import { Duration, Timed } from "./core.ts";
+import { recordFrame, snapshotCommands } from "./recording.ts";
+
+const frameRate = 30;
+
+const summarize = (captions: Timed<string>[]) =>
+	captions.map(({ time, value }) => [time.frame, value]);
+
+Deno.test("parses SRT files", () => {
+	const srt =
+		"1\r\n00:00:00,500 --> 00:00:01,000\r\nHello <i>world</i>\r\n\r\n" +
+		"2\r\n00:00:01,000 --> 00:00:02,000\r\nTom &amp; Jerry\r\nLine two\r\n";
+	assert.deepEqual(summarize(parseSrt(srt, frameRate)), [
+		[15, "Hello world"],
+		[30, "Tom & Jerry\nLine two"],
+		[60, ""],
+	]);
+});
+
+Deno.test("parses WebVTT files, skipping notes and cue settings", () => {
+	const vtt = "\uFEFFWEBVTT - title\n\nNOTE a comment\n\nintro\n" +
+		"00:00.500 --> 00:01.000 align:start\n<v Bob>Hi</v>\n\n" +
+		"01:30.000 --> 01:31.000\nLater\n";
+	assert.deepEqual(summarize(parseWebVtt(vtt, frameRate)), [
+		[15, "Hi"],
+		[30, ""],
+		[2700, "Later"],
+		[2730, ""],
+	]);
+});
+
+Deno.test("parses files without cues as no captions", () => {
+	assert.deepEqual(parseSrt("", frameRate), []);
+	assert.deepEqual(parseWebVtt("WEBVTT\n", frameRate), []);
+});
+
+Deno.test("rejects invalid WebVTT headers and timestamps", () => {
+	assert.throws(
+		() => parseWebVtt("00:00.000 --> 00:01.000\nHi", frameRate),
+		SyntaxError,
+	);
+	assert.throws(
+		() => parseSrt("1\n00:00 --> 00:01\nHi", frameRate),
+		SyntaxError,
+	);
+});
+
+Deno.test("formats captions as WebVTT", () => {
+	const captions = parseSrt(
+		"1\n00:00:01,000 --> 00:00:02,000\n<b> & </b>\n",
+		frameRate,
+	);
+	const vtt = formatWebVtt(captions, frameRate);
+	assert.equal(vtt, "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n &amp; \n");
+	assert.deepEqual(parseWebVtt(vtt, frameRate), captions);
+});
+
+Deno.test("animates no captions as an empty painter", () => {
+	const animation = animateCaptions([], { position: { x: 50, y: 50 } });
+	assert.deepEqual(recordFrame(animation, new Duration(0)), []);
+});
+
+Deno.test("paints captions aligned from the left of each line", () => {
+	const animation = animateCaptions(
+		parseSrt(
+			"1\n00:00:00,000 --> 00:00:01,000\nHi\n",
+			frameRate,
+		),
+		{ position: { x: 50, y: 50 }, font: "10px sans-serif" },
+	);
+	const snapshot = snapshotCommands(
+		recordFrame(animation, new Duration(10), {
+			measureText: (text) => text.length * 5,
+		}),
+	);
+	assert.ok(snapshot.includes('  textAlign = "left"'));
+	assert.ok(snapshot.some((line) => line.includes('fillText("Hi", 45, ')));
+});
@@ -0,0 +1,181 @@
+import { Painter } from "./core.ts";
+import {
+	acquireLayer,
+	drawLayer,
+	LayerFactory,
+	releaseLayer,
+} from "./layers.ts";
+import { Path, tracePath } from "./path.ts";
+import {
+	CircleSettings,
+	createTextPainter,
+	RectSettings,
+	RRectSettings,
+	TextSettings,
+} from "./std.ts";
+
+/** A function which adds a shape to the context's current path. */
+export type ClipShape = (context: CanvasRenderingContext2D) => void;
+
+export function rectClip(rect: RectSettings): ClipShape {
+	return (context) =>
+		context.rect(rect.position.x, rect.position.y, rect.size.x, rect.size.y);
+}
+
+export function circleClip(circle: CircleSettings): ClipShape {
+	return (context) => {
+		context.moveTo(circle.center.x + circle.radius, circle.center.y);
+		context.arc(
+			circle.center.x,
+			circle.center.y,
+			circle.radius,
+			0,
+			2 * Math.PI,
+		);
+	};
+}
+
+export function rrectClip(rrect: RRectSettings): ClipShape {
+	return (context) =>
+		context.roundRect(
+			rrect.position.x,
+			rrect.position.y,
+			rrect.size.x,
+			rrect.size.y,
+			rrect.radius,
+		);
+}
+
+export function pathClip(path: Path): ClipShape {
+	return (context) => tracePath(context, path);
+}
+
+export type ShapeClipSettings = {
+	/** When true, `painter` is only visible outside of the shape. */
+	inverse?: boolean;
+	fillRule?: CanvasFillRule;
+};
+
+/**
+ * Creates a painter which paints with `painter`, clipped to `shape`. Unlike
+ * `createClippingPainter`, the shape can be anything that can be traced.
+ *
+ * Text can't be used as a clip path on a canvas, to clip to text use
+ * `createTextClippingPainter` instead.
+ */
+export function createShapeClippingPainter(
+	shape: ClipShape,
+	painter: Painter,
+	settings: ShapeClipSettings = {},
+): Painter {
+	return (context) => {
+		context.save();
+		context.beginPath();
+		if (settings.inverse) {
+			// Surround the shape with the whole canvas, so the even-odd rule
+			// clips to everything outside of the shape. The corners are mapped
+			// to the current transform, instead of adding them with an identity
+			// transform, as some implementations transform the path on `clip()`.
+			const toUser = context.getTransform().inverse();
+			const { width, height } = context.canvas;
+			const corners = [[0, 0], [width, 0], [width, height], [0, height]]
+				.map(([x, y]) => toUser.transformPoint({ x, y }));
+			context.moveTo(corners[0].x, corners[0].y);
+			for (const corner of corners.slice(1)) {
+				context.lineTo(corner.x, corner.y);
+			}
+			context.closePath();
+		}
+		shape(context);
+		context.clip(settings.inverse ? "evenodd" : settings.fillRule);
+		painter(context);
+		context.restore();
+	};
+}
+
+/**
+ * How a mask painter is turned into a mask:
+ * - `alpha` uses the opacity of the mask
+ * - `luminance` uses the brightness of the mask (multiplied by its opacity),
+ *   so white is fully visible and black is hidden
+ */
+export type MaskMode = "alpha" | "luminance";
+
+export type MaskSettings = {
+	createLayer: LayerFactory;
+	/** Defaults to `alpha`. */
+	mode?: MaskMode;
+	/** When true, `painter` is visible where the mask is transparent. */
+	inverse?: boolean;
+};
+
+function luminanceToAlpha(layer: CanvasRenderingContext2D): void {
+	const { width, height } = layer.canvas;
+	const image = layer.getImageData(0, 0, width, height);
+	const { data } = image;
+	for (let i = 0; i < data.length; i += 4) {
+		// Rec. 709 luma coefficients, the same as CSS `mask-mode: luminance`
+		const luminance = 0.2126 * data[i] + 0.7152 * data[i + 1] +
+			0.0722 * data[i + 2];
+		data[i + 3] = luminance * data[i + 3] / 255;
+	}
+	layer.putImageData(image, 0, 0);
+}
+
+/**
+ * Creates a painter which paints with `painter`, masked by whatever `mask`
+ * paints. Both are painted to offscreen layers, which are composited and
+ * then drawn onto the context.
+ *
+ * Any painter can be a mask, for example a `createTextPainter` to show an
+ * image through text.
+ */
+export function createMaskingPainter(
+	mask: Painter,
+	painter: Painter,
+	settings: MaskSettings,
+): Painter {
+	const { createLayer, mode = "alpha", inverse = false } = settings;
+	return (context) => {
+		const content = acquireLayer(createLayer, context);
+		try {
+			painter(content);
+			const maskLayer = acquireLayer(createLayer, context);
+			try {
+				mask(maskLayer);
+				if (mode === "luminance") luminanceToAlpha(maskLayer);
+
+				content.save();
+				content.globalCompositeOperation = inverse
+					? "destination-out"
+					: "destination-in";
+				drawLayer(content, maskLayer);
+				content.restore();
+			} finally {
+				releaseLayer(createLayer, maskLayer);
+			}
+			drawLayer(context, content);
+		} finally {
+			releaseLayer(createLayer, content);
+		}
+	};
+}
+
+export type TextClipSettings = Pick<TextSettings, "text" | "position" | "font">;
+
+/**
+ * Creates a painter which paints with `painter`, clipped to the shape of the
+ * text. Text can't be part of a clip path on a canvas, so this is a mask of
+ * the filled text, see `createMaskingPainter`.
+ */
+export function createTextClippingPainter(
+	text: TextClipSettings,
+	painter: Painter,
+	settings: Omit<MaskSettings, "mode">,
+): Painter {
+	return createMaskingPainter(
+		createTextPainter({ ...text, fillStyle: "black" }),
+		painter,
+		{ ...settings, mode: "alpha" },
+	);
+}
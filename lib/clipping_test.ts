@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import {
+	createMaskingPainter,
+	createShapeClippingPainter,
+	createTextClippingPainter,
+	rectClip,
+} from "./clipping.ts";
+import { acquireLayer, releaseLayer } from "./layers.ts";
+import {
+	RecordingContext,
+	recordPainter,
+	snapshotCommands,
+} from "./recording.ts";
+import { createRectPainter, Point } from "./std.ts";
+
+const size = { x: 100, y: 50 };
+
+const createSquare = (x: number) =>
+	createRectPainter({
+		position: { x, y: 0 },
+		size: { x: 10, y: 10 },
+		fillStyle: "red",
+	});
+
+/** Creates a layer factory, which keeps the recorders of its layers. */
+function createLayers() {
+	const recorders: RecordingContext[] = [];
+	const createLayer = (size: Point) => {
+		const recorder = new RecordingContext({ size });
+		recorders.push(recorder);
+		return recorder.context;
+	};
+	return { recorders, createLayer };
+}
+
+Deno.test("clips inverse shapes in the current transform", () => {
+	const painter = createShapeClippingPainter(
+		rectClip({ position: { x: 0, y: 0 }, size: { x: 20, y: 20 } }),
+		createSquare(0),
+		{ inverse: true },
+	);
+	const commands = recordPainter((context) => {
+		context.translate(10, 5);
+		painter(context);
+	}, { size });
+	assert.deepEqual(snapshotCommands(commands), [
+		"translate(10, 5)",
+		"save()",
+		"  beginPath()",
+		"  moveTo(-10, -5)",
+		"  lineTo(90, -5)",
+		"  lineTo(90, 45)",
+		"  lineTo(-10, 45)",
+		"  closePath()",
+		"  rect(0, 0, 20, 20)",
+		'  clip("evenodd")',
+		'  fillStyle = "red"',
+		"  fillRect(0, 0, 10, 10)",
+		"restore()",
+	]);
+});
+
+Deno.test("turns the luminance of masks into alpha", () => {
+	const { recorders, createLayer } = createLayers();
+	const painter = createMaskingPainter(createSquare(5), createSquare(0), {
+		createLayer,
+		mode: "luminance",
+	});
+	recordPainter(painter, { size });
+	const [content, mask] = recorders.map((recorder) =>
+		snapshotCommands(recorder.commands)
+	);
+	assert.deepEqual(mask, [
+		"save()",
+		"  setTransform(1, 0, 0, 1, 0, 0)",
+		"  clearRect(0, 0, 100, 50)",
+		"  setTransform(1, 0, 0, 1, 0, 0)",
+		'  fillStyle = "red"',
+		"  fillRect(5, 0, 10, 10)",
+		"  getImageData(0, 0, 100, 50)",
+		"  putImageData({ width: 100, height: 50 }, 0, 0)",
+		"restore()",
+	]);
+	assert.deepEqual(content.slice(6, 12), [
+		"  save()",
+		'    globalCompositeOperation = "destination-in"',
+		"    save()",
+		"      setTransform(1, 0, 0, 1, 0, 0)",
+		"      drawImage({ width: 100, height: 50 }, 0, 0)",
+		"    restore()",
+	]);
+});
+
+Deno.test("clips to text with a mask of the filled text", () => {
+	const { recorders, createLayer } = createLayers();
+	const painter = createTextClippingPainter(
+		{ text: "Hi", position: { x: 10, y: 40 }, font: "40px serif" },
+		createSquare(0),
+		{ createLayer, inverse: true },
+	);
+	recordPainter(painter, { size });
+	const [content, mask] = recorders.map((recorder) =>
+		snapshotCommands(recorder.commands)
+	);
+	assert.deepEqual(mask.slice(4, 7), [
+		'  font = "40px serif"',
+		'  fillStyle = "black"',
+		'  fillText("Hi", 10, 40)',
+	]);
+	assert.ok(
+		content.includes('    globalCompositeOperation = "destination-out"'),
+	);
+});
+
+Deno.test("releases the layers of a mask when painting throws", () => {
+	const { recorders, createLayer } = createLayers();
+	const failing = createMaskingPainter(
+		() => {
+			throw new Error("Failed");
+		},
+		createSquare(0),
+		{ createLayer },
+	);
+	assert.throws(() => recordPainter(failing, { size }), /Failed/);
+	for (const recorder of recorders) {
+		assert.equal(snapshotCommands(recorder.commands).at(-1), "restore()");
+	}
+	// Both released layers are reused by the next mask
+	recordPainter(
+		createMaskingPainter(createSquare(5), createSquare(0), { createLayer }),
+		{ size },
+	);
+	assert.equal(recorders.length, 2);
+});
+
+Deno.test("only releases acquired layers", () => {
+	const { createLayer } = createLayers();
+	const { context } = new RecordingContext({ size });
+	const layer = acquireLayer(createLayer, context);
+	releaseLayer(createLayer, layer);
+	assert.throws(() => releaseLayer(createLayer, layer), RangeError);
+	assert.throws(() => releaseLayer(createLayer, context), RangeError);
+});
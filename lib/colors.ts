@@ -1,5 +1,5 @@
 import { Lerp } from "./core.ts";
-import { lerpNumber } from "./std.ts";
+import { clampNumber, lerpNumber } from "./std.ts";
 
 export type RgbaColor = {
 	r: number;
@@ -139,3 +139,315 @@ export function rgbaToHsla(rgba: RgbaColor): HslaColor {
 
 	return { h: h * 360, s: s * 100, l: l * 100, a };
 }
+
+export function hslaToRgba(hsla: HslaColor): RgbaColor {
+	const h = ((hsla.h % 360) + 360) % 360;
+	const s = hsla.s / 100;
+	const l = hsla.l / 100;
+	const k = (n: number) => (n + h / 30) % 12;
+	const chroma = s * Math.min(l, 1 - l);
+	const channel = (n: number) =>
+		255 * (l - chroma * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1)));
+	return { r: channel(0), g: channel(8), b: channel(4), a: hsla.a };
+}
+
+function toHexByte(value: number): string {
+	return Math.round(Math.max(0, Math.min(255, value)))
+		.toString(16)
+		.padStart(2, "0");
+}
+
+/** Serializes a color to `#rrggbb`, or `#rrggbbaa` when it's transparent. */
+export function rgbaToHex(color: RgbaColor): string {
+	const alpha = color.a < 1 ? toHexByte(color.a * 255) : "";
+	return `#${toHexByte(color.r)}${toHexByte(color.g)}${
+		toHexByte(color.b)
+	}${alpha}`;
+}
+
+/**
+ * A color in the OKLab perceptual color space. `l` is lightness from 0 to 1,
+ * `a` and `b` are the green-red and blue-yellow axes (roughly -0.4 to 0.4).
+ */
+export type OklabColor = {
+	l: number;
+	a: number;
+	b: number;
+	alpha: number;
+};
+
+/**
+ * A color in the OKLCH color space, the polar form of OKLab. `l` is
+ * lightness from 0 to 1, `c` is chroma (roughly 0 to 0.4) and `h` is hue in
+ * degrees.
+ */
+export type OklchColor = {
+	l: number;
+	c: number;
+	h: number;
+	alpha: number;
+};
+
+function srgbToLinear(value: number): number {
+	const v = value / 255;
+	return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+	const v = value <= 0.0031308
+		? value * 12.92
+		: 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+	return Math.max(0, Math.min(255, v * 255));
+}
+
+// Conversion matrices from https://bottosson.github.io/posts/oklab/
+export function rgbaToOklab(color: RgbaColor): OklabColor {
+	const r = srgbToLinear(color.r);
+	const g = srgbToLinear(color.g);
+	const b = srgbToLinear(color.b);
+	const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+	const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+	const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+	return {
+		l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+		a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+		b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+		alpha: color.a,
+	};
+}
+
+/**
+ * Converts an OKLab color to sRGB. Colors outside the sRGB gamut are
+ * clamped per channel.
+ */
+export function oklabToRgba(color: OklabColor): RgbaColor {
+	const { l: lightness, a, b } = color;
+	const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+	const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+	const s = Math.pow(lightness - 0.0894841775 * a - 1.2914855480 * b, 3);
+	return {
+		r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+		g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+		b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+		a: color.alpha,
+	};
+}
+
+export function oklabToOklch(color: OklabColor): OklchColor {
+	const h = Math.atan2(color.b, color.a) * 180 / Math.PI;
+	return {
+		l: color.l,
+		c: Math.hypot(color.a, color.b),
+		h: (h + 360) % 360,
+		alpha: color.alpha,
+	};
+}
+
+export function oklchToOklab(color: OklchColor): OklabColor {
+	const h = color.h * Math.PI / 180;
+	return {
+		l: color.l,
+		a: color.c * Math.cos(h),
+		b: color.c * Math.sin(h),
+		alpha: color.alpha,
+	};
+}
+
+export function rgbaToOklch(color: RgbaColor): OklchColor {
+	return oklabToOklch(rgbaToOklab(color));
+}
+
+export function oklchToRgba(color: OklchColor): RgbaColor {
+	return oklabToRgba(oklchToOklab(color));
+}
+
+export function oklabToString(color: OklabColor): string {
+	return `oklab(${color.l} ${color.a} ${color.b} / ${color.alpha})`;
+}
+
+export function oklchToString(color: OklchColor): string {
+	return `oklch(${color.l} ${color.c} ${color.h} / ${color.alpha})`;
+}
+
+export const lerpOklabColor: Lerp<OklabColor> = (a, b, t) => ({
+	l: lerpNumber(a.l, b.l, t),
+	a: lerpNumber(a.a, b.a, t),
+	b: lerpNumber(a.b, b.b, t),
+	alpha: lerpNumber(a.alpha, b.alpha, t),
+});
+
+export const lerpOklchColor: Lerp<OklchColor> = (a, b, t) => ({
+	l: lerpNumber(a.l, b.l, t),
+	c: lerpNumber(a.c, b.c, t),
+	h: lerpWrappingNumber(a.h, b.h, t, 360) % 360,
+	alpha: lerpNumber(a.alpha, b.alpha, t),
+});
+
+/**
+ * Interpolates sRGB colors through OKLab, which avoids the muddy middle of
+ * interpolating in sRGB directly.
+ */
+export const lerpRgbaColorInOklab: Lerp<RgbaColor> = (a, b, t) =>
+	oklabToRgba(lerpOklabColor(rgbaToOklab(a), rgbaToOklab(b), t));
+
+// deno-fmt-ignore
+const namedColors: Record<string, string> = {
+	aliceblue: "f0f8ff", antiquewhite: "faebd7", aqua: "00ffff",
+	aquamarine: "7fffd4", azure: "f0ffff", beige: "f5f5dc", bisque: "ffe4c4",
+	black: "000000", blanchedalmond: "ffebcd", blue: "0000ff",
+	blueviolet: "8a2be2", brown: "a52a2a", burlywood: "deb887",
+	cadetblue: "5f9ea0", chartreuse: "7fff00", chocolate: "d2691e",
+	coral: "ff7f50", cornflowerblue: "6495ed", cornsilk: "fff8dc",
+	crimson: "dc143c", cyan: "00ffff", darkblue: "00008b", darkcyan: "008b8b",
+	darkgoldenrod: "b8860b", darkgray: "a9a9a9", darkgreen: "006400",
+	darkgrey: "a9a9a9", darkkhaki: "bdb76b", darkmagenta: "8b008b",
+	darkolivegreen: "556b2f", darkorange: "ff8c00", darkorchid: "9932cc",
+	darkred: "8b0000", darksalmon: "e9967a", darkseagreen: "8fbc8f",
+	darkslateblue: "483d8b", darkslategray: "2f4f4f", darkslategrey: "2f4f4f",
+	darkturquoise: "00ced1", darkviolet: "9400d3", deeppink: "ff1493",
+	deepskyblue: "00bfff", dimgray: "696969", dimgrey: "696969",
+	dodgerblue: "1e90ff", firebrick: "b22222", floralwhite: "fffaf0",
+	forestgreen: "228b22", fuchsia: "ff00ff", gainsboro: "dcdcdc",
+	ghostwhite: "f8f8ff", gold: "ffd700", goldenrod: "daa520", gray: "808080",
+	green: "008000", greenyellow: "adff2f", grey: "808080", honeydew: "f0fff0",
+	hotpink: "ff69b4", indianred: "cd5c5c", indigo: "4b0082", ivory: "fffff0",
+	khaki: "f0e68c", lavender: "e6e6fa", lavenderblush: "fff0f5",
+	lawngreen: "7cfc00", lemonchiffon: "fffacd", lightblue: "add8e6",
+	lightcoral: "f08080", lightcyan: "e0ffff", lightgoldenrodyellow: "fafad2",
+	lightgray: "d3d3d3", lightgreen: "90ee90", lightgrey: "d3d3d3",
+	lightpink: "ffb6c1", lightsalmon: "ffa07a", lightseagreen: "20b2aa",
+	lightskyblue: "87cefa", lightslategray: "778899", lightslategrey: "778899",
+	lightsteelblue: "b0c4de", lightyellow: "ffffe0", lime: "00ff00",
+	limegreen: "32cd32", linen: "faf0e6", magenta: "ff00ff", maroon: "800000",
+	mediumaquamarine: "66cdaa", mediumblue: "0000cd", mediumorchid: "ba55d3",
+	mediumpurple: "9370db", mediumseagreen: "3cb371", mediumslateblue: "7b68ee",
+	mediumspringgreen: "00fa9a", mediumturquoise: "48d1cc",
+	mediumvioletred: "c71585", midnightblue: "191970", mintcream: "f5fffa",
+	mistyrose: "ffe4e1", moccasin: "ffe4b5", navajowhite: "ffdead",
+	navy: "000080", oldlace: "fdf5e6", olive: "808000", olivedrab: "6b8e23",
+	orange: "ffa500", orangered: "ff4500", orchid: "da70d6",
+	palegoldenrod: "eee8aa", palegreen: "98fb98", paleturquoise: "afeeee",
+	palevioletred: "db7093", papayawhip: "ffefd5", peachpuff: "ffdab9",
+	peru: "cd853f", pink: "ffc0cb", plum: "dda0dd", powderblue: "b0e0e6",
+	purple: "800080", rebeccapurple: "663399", red: "ff0000",
+	rosybrown: "bc8f8f", royalblue: "4169e1", saddlebrown: "8b4513",
+	salmon: "fa8072", sandybrown: "f4a460", seagreen: "2e8b57",
+	seashell: "fff5ee", sienna: "a0522d", silver: "c0c0c0", skyblue: "87ceeb",
+	slateblue: "6a5acd", slategray: "708090", slategrey: "708090",
+	snow: "fffafa", springgreen: "00ff7f", steelblue: "4682b4", tan: "d2b48c",
+	teal: "008080", thistle: "d8bfd8", tomato: "ff6347",
+	transparent: "00000000", turquoise: "40e0d0", violet: "ee82ee",
+	wheat: "f5deb3", white: "ffffff", whitesmoke: "f5f5f5", yellow: "ffff00",
+	yellowgreen: "9acd32",
+};
+
+/** Parses a number, or a percentage of `percentScale`. */
+function parseComponent(component: string, percentScale: number): number {
+	if (component === "none") return 0;
+	const value = Number.parseFloat(component);
+	if (Number.isNaN(value)) {
+		throw new SyntaxError(`Invalid color component: "${component}"`);
+	}
+	return component.endsWith("%") ? value / 100 * percentScale : value;
+}
+
+function parseHue(component: string): number {
+	if (component === "none") return 0;
+	const value = Number.parseFloat(component);
+	if (Number.isNaN(value)) {
+		throw new SyntaxError(`Invalid hue: "${component}"`);
+	}
+	if (component.endsWith("grad")) return value * 0.9;
+	if (component.endsWith("rad")) return value * 180 / Math.PI;
+	if (component.endsWith("turn")) return value * 360;
+	return value;
+}
+
+/**
+ * Parses any CSS color supported by this module into its components and
+ * alpha. Both the legacy comma-separated syntax and the modern
+ * space-separated syntax (with `/` before alpha) are supported.
+ */
+function parseColorFunction(
+	color: string,
+): { name: string; components: string[]; alpha: number } | undefined {
+	const match = color.match(/^([a-z]+)\((.*)\)$/);
+	if (!match) return undefined;
+	const [, name, body] = match;
+	const [main, alphaPart] = body.split("/");
+	const components = main.trim().split(/\s*,\s*|\s+/);
+	let alpha = alphaPart?.trim();
+	if (alpha === undefined && components.length === 4) {
+		alpha = components.pop()!;
+	}
+	if (components.length !== 3) {
+		throw new SyntaxError(`Invalid number of components in "${color}"`);
+	}
+	return {
+		name,
+		components,
+		alpha: alpha === undefined
+			? 1
+			: clampNumber(0, 1, parseComponent(alpha, 1)),
+	};
+}
+
+/**
+ * Parses a CSS color string into an `RgbaColor`. Supports hex colors (with
+ * `#`), `rgb()`, `rgba()`, `hsl()`, `hsla()`, `oklab()`, `oklch()` and named
+ * colors.
+ *
+ * @throws {SyntaxError} When the color can't be parsed.
+ */
+export function parseColor(color: string): RgbaColor {
+	const normalized = color.trim().toLowerCase();
+	if (normalized.startsWith("#")) {
+		// Hex colors have 3, 4, 6 or 8 digits, which `hexToRgbaColor` expects
+		if (!/^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(normalized)) {
+			throw new SyntaxError(`Invalid hex color: "${color}"`);
+		}
+		return hexToRgbaColor(normalized.slice(1));
+	}
+	// Own properties only, so names like "constructor" aren't colors
+	if (Object.hasOwn(namedColors, normalized)) {
+		return hexToRgbaColor(namedColors[normalized]);
+	}
+
+	const parsed = parseColorFunction(normalized);
+	if (!parsed) throw new SyntaxError(`Unsupported color: "${color}"`);
+	const { name, components: [x, y, z], alpha } = parsed;
+	switch (name) {
+		case "rgb":
+		case "rgba":
+			// Like in CSS, out of range channels are clamped
+			return {
+				r: clampNumber(0, 255, parseComponent(x, 255)),
+				g: clampNumber(0, 255, parseComponent(y, 255)),
+				b: clampNumber(0, 255, parseComponent(z, 255)),
+				a: alpha,
+			};
+		case "hsl":
+		case "hsla":
+			return hslaToRgba({
+				h: parseHue(x),
+				s: clampNumber(0, 100, parseComponent(y, 100)),
+				l: clampNumber(0, 100, parseComponent(z, 100)),
+				a: alpha,
+			});
+		case "oklab":
+			return oklabToRgba({
+				l: parseComponent(x, 1),
+				a: parseComponent(y, 0.4),
+				b: parseComponent(z, 0.4),
+				alpha,
+			});
+		case "oklch":
+			return oklchToRgba({
+				l: parseComponent(x, 1),
+				c: parseComponent(y, 0.4),
+				h: parseHue(z),
+				alpha,
+			});
+	}
+	throw new SyntaxError(`Unsupported color function: "${color}"`);
+}
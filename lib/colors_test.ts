@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { parseColor } from "./colors.ts";
+
+Deno.test("parses hex colors of every length", () => {
+	assert.deepEqual(parseColor("#f00"), { r: 255, g: 0, b: 0, a: 1 });
+	assert.equal(parseColor("#f008").a.toFixed(2), "0.53");
+	assert.deepEqual(parseColor("#00ff00"), { r: 0, g: 255, b: 0, a: 1 });
+	assert.equal(parseColor(" #0000FF80 ").b, 255);
+});
+
+Deno.test("parses color functions and named colors", () => {
+	assert.deepEqual(parseColor("rgb(255 0 0 / 50%)"), {
+		r: 255,
+		g: 0,
+		b: 0,
+		a: 0.5,
+	});
+	assert.deepEqual(parseColor("rgba(0, 128, 255, 0.25)"), {
+		r: 0,
+		g: 128,
+		b: 255,
+		a: 0.25,
+	});
+	const { r, g, b } = parseColor("hsl(120, 100%, 50%)");
+	assert.deepEqual([r, g, b].map(Math.round), [0, 255, 0]);
+	assert.deepEqual(parseColor("hsl(0 none 50% / 0.5)"), {
+		r: 127.5,
+		g: 127.5,
+		b: 127.5,
+		a: 0.5,
+	});
+	assert.deepEqual(parseColor("RebeccaPurple"), {
+		r: 102,
+		g: 51,
+		b: 153,
+		a: 1,
+	});
+});
+
+Deno.test("clamps channels and alpha to their ranges", () => {
+	assert.deepEqual(parseColor("rgb(300, -20, 50%, 2)"), {
+		r: 255,
+		g: 0,
+		b: 127.5,
+		a: 1,
+	});
+	assert.equal(parseColor("rgb(0 0 0 / -50%)").a, 0);
+	assert.deepEqual(parseColor("hsl(0, 150%, 120%)"), {
+		r: 255,
+		g: 255,
+		b: 255,
+		a: 1,
+	});
+});
+
+Deno.test("rejects invalid colors with a SyntaxError", () => {
+	for (
+		const color of [
+			"#12345",
+			"#1",
+			"#ggg",
+			"constructor",
+			"tostring",
+			"__proto__",
+			"notacolor",
+			"rgb(1, 2)",
+			"rgb(1, x, 3)",
+			"hsl(0, abc, 50%)",
+			"hsl(0 50% abc)",
+		]
+	) {
+		assert.throws(() => parseColor(color), SyntaxError, color);
+	}
+});
@@ -39,6 +39,29 @@ export class Duration {
 		return new Duration(Math.round(this.frame * factor));
 	}
 
+	/** Like `scale()`, but keeps sub-frame precision instead of rounding. */
+	multiply(factor: number): Duration {
+		return new Duration(this.frame * factor);
+	}
+
+	/** Rounds down to a whole frame. */
+	floor(): Duration {
+		return new Duration(Math.floor(this.frame));
+	}
+
+	/** Rounds up to a whole frame. */
+	ceil(): Duration {
+		return new Duration(Math.ceil(this.frame));
+	}
+
+	get isWholeFrame(): boolean {
+		return Number.isInteger(this.frame);
+	}
+
+	toSeconds(frameRate: number): number {
+		return this.frame / frameRate;
+	}
+
 	get isZero(): boolean {
 		return this.frame === 0;
 	}
@@ -70,6 +93,48 @@ export class Duration {
 	static fromSeconds(seconds: number, frameRate: number): Duration {
 		return new Duration(Math.ceil(seconds * frameRate));
 	}
+
+	static fromMilliseconds(milliseconds: number, frameRate: number): Duration {
+		return Duration.fromSeconds(milliseconds / 1000, frameRate);
+	}
+}
+
+/**
+ * `FrameRate` is a declared number of frames per second, for authoring
+ * `Duration`s in real time units. Unlike `Duration.fromSeconds()`, its
+ * methods keep sub-frame precision, so a scene authored against one
+ * `FrameRate` can be converted to another one with `Animation.retime()`
+ * without accumulating rounding errors.
+ */
+export class FrameRate {
+	constructor(public readonly framesPerSecond: number) {
+		if (!(framesPerSecond > 0)) {
+			throw new RangeError(
+				`Frame rate should be positive, got ${framesPerSecond}`,
+			);
+		}
+	}
+
+	frames(count: number): Duration {
+		return new Duration(count);
+	}
+
+	seconds(seconds: number): Duration {
+		return new Duration(seconds * this.framesPerSecond);
+	}
+
+	milliseconds(milliseconds: number): Duration {
+		return this.seconds(milliseconds / 1000);
+	}
+
+	toSeconds(duration: Duration): number {
+		return duration.toSeconds(this.framesPerSecond);
+	}
+
+	/** Converts a `Duration` in this frame rate to the same time in `other`. */
+	convert(duration: Duration, other: FrameRate): Duration {
+		return duration.multiply(other.framesPerSecond / this.framesPerSecond);
+	}
 }
 
 /** Any function which can be evaluated at a certain `time`. */
@@ -133,6 +198,33 @@ export const resetToZeroInclusiveTime: TimeTransformStrategy =
 	(animation) => (time) =>
 		time.isLessThan(animation.duration) ? time : Duration.zero;
 
+/** Extra information about an animation, shown when inspecting it. */
+export type AnimationMetadata = Record<string, string | number | boolean>;
+
+/** Describes a single animation, without the animations it's made of. */
+export type AnimationDescription = {
+	/** The kind of animation, like `"Sequence"` or `"Tween"`. */
+	type: string;
+	duration: Duration;
+	/** The name given with `Animation.named()`. */
+	name?: string;
+	metadata?: AnimationMetadata;
+	/** Settings of the animation, like the easing of a tween. */
+	details?: AnimationMetadata;
+};
+
+/** An animation which another animation is made of. */
+export type AnimationChild = {
+	animation: Animation<unknown>;
+	/**
+	 * When the child starts in the time of its parent. It's left out when the
+	 * parent remaps time in other ways, like `reversed()`.
+	 */
+	start?: Duration;
+	/** What the child is to its parent, like a property name. */
+	label?: string;
+};
+
 /**
  * An `Animation` can be evaluated at a certain time to produce a value of
  * type `T`. It is left up to the implementations of `Animation` how they
@@ -170,12 +262,149 @@ export abstract class Animation<T> {
 		padding: { before: Duration; after: Duration },
 		strategy: TimeTransformStrategy = this.strategy,
 	): Animation<T> {
-		return new CallbackAnimation(
-			this.duration.add(padding.before).add(padding.after),
-			strategy,
-			(time) => this.at(time.subtract(padding.before)),
+		return new ExtendedAnimation(this, padding.before, padding.after, strategy);
+	}
+
+	/**
+	 * Creates a new animation which caches the values of this one, for
+	 * expensive animations which are evaluated at the same times repeatedly.
+	 * See `MemoizedAnimation`.
+	 */
+	memoize(capacity?: number): Animation<T> {
+		return new MemoizedAnimation(this, capacity);
+	}
+
+	/** Creates a new animation which plays this one backwards. */
+	reversed(): Animation<T> {
+		return new RemappedAnimation(
+			this,
+			this.duration,
+			(time) => this.duration.subtract(time),
+		);
+	}
+
+	/**
+	 * Creates a new animation which plays this one faster (or slower, when
+	 * `factor` is below 1). Its duration is rounded to whole frames.
+	 */
+	withSpeed(factor: number): Animation<T> {
+		if (!(factor > 0)) {
+			throw new RangeError(`Speed factor should be positive, got ${factor}`);
+		}
+		return new RemappedAnimation(
+			this,
+			this.duration.scale(1 / factor),
+			(time) => new Duration(time.frame * factor),
+		);
+	}
+
+	/**
+	 * Creates a new animation which plays this one forwards, then backwards,
+	 * so it's twice as long.
+	 */
+	pingPong(): Animation<T> {
+		return new RemappedAnimation(
+			this,
+			this.duration.add(this.duration),
+			(time) =>
+				time.isGreaterThan(this.duration)
+					? this.duration.add(this.duration).subtract(time)
+					: time,
+		);
+	}
+
+	/**
+	 * Creates a new animation which plays this one `count` times in a row.
+	 * At the very end, it evaluates to the end of this animation.
+	 */
+	repeat(count: number): Animation<T> {
+		if (!(count > 0)) {
+			throw new RangeError(`Repeat count should be positive, got ${count}`);
+		}
+		const duration = this.duration.scale(count);
+		return new RemappedAnimation(
+			this,
+			duration,
+			(time) =>
+				time.isLessThan(duration) && !this.duration.isZero
+					? time.wrap(this.duration)
+					: this.duration,
+		);
+	}
+
+	/**
+	 * Creates a new animation with the same duration as this one, which always
+	 * evaluates to the value of this one at `time`.
+	 */
+	freezeAt(time: Duration): Animation<T> {
+		return new RemappedAnimation(this, this.duration, () => time);
+	}
+
+	/**
+	 * Creates a new animation which is the part of this one between `from`
+	 * and `to`.
+	 */
+	slice(from: Duration, to: Duration): Animation<T> {
+		if (to.isLessThan(from)) {
+			throw new RangeError(`Invalid slice [${from.frame}, ${to.frame}]`);
+		}
+		return new RemappedAnimation(
+			this,
+			to.subtract(from),
+			(time) => time.add(from),
+		);
+	}
+
+	/**
+	 * Creates a new animation which plays this one, authored in frames of
+	 * `from`, in frames of `to` instead. The new animation is evaluated at
+	 * fractional frames of this one when the frame rates don't divide evenly,
+	 * and its duration is rounded up to a whole frame.
+	 */
+	retime(from: FrameRate, to: FrameRate): Animation<T> {
+		return new RemappedAnimation(
+			this,
+			from.convert(this.duration, to).ceil(),
+			(time) => to.convert(time, from),
+		);
+	}
+
+	/**
+	 * Creates a new animation which evaluates this one at the time given by
+	 * `timeAnimation`, and has the same duration as `timeAnimation`.
+	 */
+	remapTime(timeAnimation: Animation<Duration>): Animation<T> {
+		return new RemappedAnimation(
+			this,
+			timeAnimation.duration,
+			(time) => timeAnimation.at(time),
+			(a, b) => timeAnimation.isSameAt(a, b),
 		);
 	}
+
+	/**
+	 * Creates a new animation which behaves the same as this one, but has a
+	 * name and metadata for debugging, which are shown by `describe()`.
+	 */
+	named(name: string, metadata?: AnimationMetadata): Animation<T> {
+		return new NamedAnimation(this, name, metadata);
+	}
+
+	/**
+	 * Describes this animation for debugging. Animations which don't override
+	 * this are described by their class name.
+	 */
+	describe(): AnimationDescription {
+		return { type: this.constructor.name, duration: this.duration };
+	}
+
+	/**
+	 * Returns the animations this one is made of, for inspecting how an
+	 * animation was built. See `inspectAnimation()`.
+	 */
+	children(): AnimationChild[] {
+		return [];
+	}
 }
 
 export abstract class TransformingAnimation<T> extends Animation<T> {
@@ -214,6 +443,179 @@ export class DerivedAnimation<T, U> extends TransformingAnimation<U> {
 	override isSameAtTransformed(a: Duration, b: Duration): boolean {
 		return this.source.isSameAt(a, b);
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Derived", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return [{ animation: this.source, start: Duration.zero }];
+	}
+}
+
+/**
+ * An `Animation` which evaluates `source` at a different time, given by
+ * `remap`. Used by the time remapping methods of `Animation`, like
+ * `reversed()` and `repeat()`.
+ */
+export class RemappedAnimation<T> extends TransformingAnimation<T> {
+	constructor(
+		private readonly source: Animation<T>,
+		duration: Duration,
+		private readonly remap: TimeTransform,
+		private readonly sameRemapAt?: (a: Duration, b: Duration) => boolean,
+		strategy: TimeTransformStrategy = source.strategy,
+	) {
+		super(duration, strategy);
+	}
+
+	override atTransformed(time: Duration): T {
+		return this.source.at(this.remap(time));
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		if (this.sameRemapAt?.(a, b)) return true;
+		const remappedA = this.remap(a);
+		const remappedB = this.remap(b);
+		if (remappedA.isEqualTo(remappedB)) return true;
+		return this.source.isSameAt(remappedA, remappedB);
+	}
+
+	override describe(): AnimationDescription {
+		return { type: "Remapped", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return [{ animation: this.source }];
+	}
+}
+
+/** An `Animation` which plays `source` with padding, see `Animation.extend`. */
+class ExtendedAnimation<T> extends TransformingAnimation<T> {
+	constructor(
+		private readonly source: Animation<T>,
+		private readonly before: Duration,
+		private readonly after: Duration,
+		strategy: TimeTransformStrategy,
+	) {
+		super(source.duration.add(before).add(after), strategy);
+	}
+
+	override atTransformed(time: Duration): T {
+		return this.source.at(time.subtract(this.before));
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		return this.source.isSameAt(
+			a.subtract(this.before),
+			b.subtract(this.before),
+		);
+	}
+
+	override describe(): AnimationDescription {
+		return {
+			type: "Extended",
+			duration: this.duration,
+			details: { before: this.before.frame, after: this.after.frame },
+		};
+	}
+
+	override children(): AnimationChild[] {
+		return [{ animation: this.source, start: this.before }];
+	}
+}
+
+/**
+ * An `Animation` which behaves the same as `source`, with a name and metadata
+ * added to its description. See `Animation.named()`.
+ */
+class NamedAnimation<T> extends Animation<T> {
+	constructor(
+		private readonly source: Animation<T>,
+		private readonly name: string,
+		private readonly metadata?: AnimationMetadata,
+	) {
+		super(source.duration, source.strategy);
+	}
+
+	at(time: Duration): T {
+		return this.source.at(time);
+	}
+
+	isSameAt(a: Duration, b: Duration): boolean {
+		return this.source.isSameAt(a, b);
+	}
+
+	override describe(): AnimationDescription {
+		const description = this.source.describe();
+		// Naming an animation again replaces its name, and adds to its metadata
+		const metadata = { ...description.metadata, ...this.metadata };
+		return {
+			...description,
+			name: this.name,
+			...(Object.keys(metadata).length ? { metadata } : {}),
+		};
+	}
+
+	override children(): AnimationChild[] {
+		return this.source.children();
+	}
+}
+
+/**
+ * An `Animation` which caches the values of `source` by (transformed) time,
+ * keeping at most `capacity` values, and evicting the least recently used.
+ * When `source` reports that it's the same at the requested time as at the
+ * last evaluated time, the last value is reused too.
+ *
+ * This is useful for expensive derived values, like text layout. Note that
+ * it also means the same object is returned for repeated evaluations.
+ */
+export class MemoizedAnimation<T> extends TransformingAnimation<T> {
+	private readonly cache = new Map<number, T>();
+	private last?: Timed<T>;
+
+	constructor(
+		private readonly source: Animation<T>,
+		private readonly capacity: number = 64,
+	) {
+		super(source.duration, source.strategy);
+	}
+
+	override atTransformed(time: Duration): T {
+		const cached = this.cache.get(time.frame);
+		if (cached !== undefined || this.cache.has(time.frame)) {
+			// Move to the end, so it's evicted last
+			this.cache.delete(time.frame);
+			this.cache.set(time.frame, cached!);
+			return cached!;
+		}
+		const value = this.last && this.source.isSameAt(this.last.time, time)
+			? this.last.value
+			: this.source.at(time);
+		this.cache.set(time.frame, value);
+		if (this.cache.size > this.capacity) {
+			this.cache.delete(this.cache.keys().next().value!);
+		}
+		this.last = { value, time };
+		return value;
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		return this.source.isSameAt(a, b);
+	}
+
+	override describe(): AnimationDescription {
+		return {
+			type: "Memoized",
+			duration: this.duration,
+			details: { capacity: this.capacity },
+		};
+	}
+
+	override children(): AnimationChild[] {
+		return [{ animation: this.source, start: Duration.zero }];
+	}
 }
 
 /**
@@ -238,6 +640,10 @@ export class CallbackAnimation<T> extends TransformingAnimation<T> {
 		if (this.sameAtCallback) return this.sameAtCallback(a, b);
 		return false;
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Callback", duration: this.duration };
+	}
 }
 
 /** An `Animation` which always evaluates to its `value`, no matter the time. */
@@ -253,6 +659,20 @@ export class ConstantAnimation<T> extends Animation<T> {
 	isSameAt(): boolean {
 		return true;
 	}
+
+	override describe(): AnimationDescription {
+		const { value } = this;
+		return {
+			type: "Constant",
+			duration: this.duration,
+			...(isPrimitive(value) ? { details: { value } } : {}),
+		};
+	}
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+	return typeof value === "string" || typeof value === "number" ||
+		typeof value === "boolean";
 }
 
 /** A linear interpolation function. */
@@ -286,6 +706,7 @@ class Tween<T> extends TransformingAnimation<T> {
 		duration: Duration,
 		private easing?: (input: number) => number,
 		strategy: TimeTransformStrategy = clampTime,
+		private readonly constantWhenEqual = false,
 	) {
 		super(duration, strategy);
 	}
@@ -295,16 +716,50 @@ class Tween<T> extends TransformingAnimation<T> {
 		const easedAnimation = this.easing ? this.easing(animation) : animation;
 		return this.lerp(this.from, this.to, easedAnimation);
 	}
+
+	override isSameAtTransformed(): boolean {
+		return this.constantWhenEqual && this.from === this.to;
+	}
+
+	override describe(): AnimationDescription {
+		const details: AnimationMetadata = {};
+		if (isPrimitive(this.from) && isPrimitive(this.to)) {
+			details.from = this.from;
+			details.to = this.to;
+		}
+		if (this.easing?.name) details.easing = this.easing.name;
+		return { type: "Tween", duration: this.duration, details };
+	}
 }
 
+export type TweenDefinitionSettings = {
+	/**
+	 * Set to true when `lerp` always returns the same value for equal `from`
+	 * and `to`, so tweens between equal values report that they don't change.
+	 * Defaults to false, as that isn't true for every `Lerp` (like splines).
+	 */
+	constantWhenEqual?: boolean;
+};
+
 /**
  * Creates a `TweenCreator` based on a `lerp` function that defines how to
  * to linearly interpolate values of type `T`. The creator can then be used
  * to make new tween animations of type `T`.
  */
-export function defineTween<T>(lerp: Lerp<T>): TweenCreator<T> {
+export function defineTween<T>(
+	lerp: Lerp<T>,
+	settings: TweenDefinitionSettings = {},
+): TweenCreator<T> {
 	return ({ from, to, duration, easing, strategy }) =>
-		new Tween(lerp, from, to, duration, easing, strategy);
+		new Tween(
+			lerp,
+			from,
+			to,
+			duration,
+			easing,
+			strategy,
+			settings.constantWhenEqual,
+		);
 }
 
 /** Creates a constant function. */
@@ -337,19 +792,50 @@ export function fromAnimationProperties<T extends object>(
 	source: { [k in keyof T]: Animation<T[k]> },
 	strategy: TimeTransformStrategy = clampTime,
 ): Animation<T> {
-	const keys = Object.keys(source) as (keyof T)[];
-	const duration = keys.reduce(
-		(max, key) => Duration.max(max, source[key].duration),
-		Duration.zero,
-	);
-	const transformed = Object.fromEntries(
-		keys.map((key) => [key, source[key].at.bind(source[key])]),
-	) as { [k in keyof T]: Animatable<T[k]> };
-	return new CallbackAnimation(
-		duration,
-		strategy,
-		fromAnimatableProperties(transformed),
-	);
+	return new PropertiesAnimation(source, strategy);
+}
+
+class PropertiesAnimation<T extends object> extends TransformingAnimation<T> {
+	private readonly keys: (keyof T)[];
+	private readonly animatable: Animatable<T>;
+
+	constructor(
+		private readonly source: { [k in keyof T]: Animation<T[k]> },
+		strategy: TimeTransformStrategy,
+	) {
+		const keys = Object.keys(source) as (keyof T)[];
+		const duration = keys.reduce(
+			(max, key) => Duration.max(max, source[key].duration),
+			Duration.zero,
+		);
+		super(duration, strategy);
+		this.keys = keys;
+		this.animatable = fromAnimatableProperties(
+			Object.fromEntries(
+				keys.map((key) => [key, source[key].at.bind(source[key])]),
+			) as { [k in keyof T]: Animatable<T[k]> },
+		);
+	}
+
+	override atTransformed(time: Duration): T {
+		return this.animatable(time);
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		return this.keys.every((key) => this.source[key].isSameAt(a, b));
+	}
+
+	override describe(): AnimationDescription {
+		return { type: "Properties", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return this.keys.map((key) => ({
+			animation: this.source[key],
+			start: Duration.zero,
+			label: String(key),
+		}));
+	}
 }
 
 /**
@@ -375,6 +861,18 @@ export class ArrayAnimation<T> extends TransformingAnimation<T[]> {
 	override isSameAtTransformed(a: Duration, b: Duration): boolean {
 		return this.source.every((anim) => anim.isSameAt(a, b));
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Array", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return this.source.map((animation, i) => ({
+			animation,
+			start: Duration.zero,
+			label: `${i}`,
+		}));
+	}
 }
 
 /**
@@ -394,16 +892,44 @@ export class SequenceAnimation<T> extends TransformingAnimation<T> {
 		super(totalDuration, strategy);
 	}
 
-	atTransformed(time: Duration): T {
+	private getAnimAt(time: Duration): Timed<Animation<T>> {
 		let nextStart = Duration.zero;
 		for (const anim of this.animations) {
 			nextStart = nextStart.add(anim.duration);
 			if (time.isLessThan(nextStart)) {
-				return anim.at(time.subtract(nextStart.subtract(anim.duration)));
+				return { value: anim, time: nextStart.subtract(anim.duration) };
 			}
 		}
 		const lastAnim = this.animations[this.animations.length - 1];
-		return lastAnim.at(time.subtract(nextStart.subtract(lastAnim.duration)));
+		return { value: lastAnim, time: nextStart.subtract(lastAnim.duration) };
+	}
+
+	atTransformed(time: Duration): T {
+		const current = this.getAnimAt(time);
+		return current.value.at(time.subtract(current.time));
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		const animA = this.getAnimAt(a);
+		const animB = this.getAnimAt(b);
+		if (animA.value !== animB.value) return false;
+		return animA.value.isSameAt(
+			a.subtract(animA.time),
+			b.subtract(animA.time),
+		);
+	}
+
+	override describe(): AnimationDescription {
+		return { type: "Sequence", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		let start = Duration.zero;
+		return this.animations.map((animation) => {
+			const child = { animation, start };
+			start = start.add(animation.duration);
+			return child;
+		});
 	}
 }
 
@@ -438,7 +964,7 @@ export class SwitchAnimation<T> extends TransformingAnimation<T> {
 		return current.value.at(time.subtract(current.time));
 	}
 
-	override isSameAt(a: Duration, b: Duration): boolean {
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
 		const animA = this.getAnimAt(a);
 		const animB = this.getAnimAt(b);
 		if (animA !== animB) return false;
@@ -447,6 +973,17 @@ export class SwitchAnimation<T> extends TransformingAnimation<T> {
 			b.subtract(animA.time),
 		);
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Switch", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return this.timedAnimations.map(({ value, time }) => ({
+			animation: value,
+			start: time,
+		}));
+	}
 }
 
 /**
@@ -501,12 +1038,22 @@ export class WindowedAnimation<T> extends TransformingAnimation<T[]> {
 		);
 	}
 
-	override isSameAt(a: Duration, b: Duration): boolean {
-		if (a.isEqualTo(b)) return true;
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
 		return this.timedAnimations.every((anim, index) =>
 			anim.value.isSameAt(this.windows[index](a), this.windows[index](b))
 		);
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Windowed", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		return this.timedAnimations.map(({ value, time }) => ({
+			animation: value,
+			start: time,
+		}));
+	}
 }
 
 /**
@@ -545,12 +1092,24 @@ export class StaggeredAnimation<T> extends TransformingAnimation<T[]> {
 		);
 	}
 
-	override isSameAt(a: Duration, b: Duration): boolean {
-		if (a.isEqualTo(b)) return true;
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
 		return this.animations.every((anim, index) =>
 			anim.isSameAt(this.windows[index](a), this.windows[index](b))
 		);
 	}
+
+	override describe(): AnimationDescription {
+		return { type: "Staggered", duration: this.duration };
+	}
+
+	override children(): AnimationChild[] {
+		let start = Duration.zero;
+		return this.animations.map((animation) => {
+			const child = { animation, start };
+			start = start.add(animation.duration);
+			return child;
+		});
+	}
 }
 
 /**
@@ -582,20 +1141,62 @@ export function fillToFrames<T>(
 	});
 }
 
+/**
+ * A keyframe, which defines a value at a certain time, and optionally how the
+ * animation should get from this keyframe to the next one.
+ */
+export type Keyframe<T> = Timed<T> & {
+	/** Overrides the easing used until the next keyframe. */
+	easing?: (input: number) => number;
+	/** When true, the value is held until the next keyframe (a step). */
+	hold?: boolean;
+};
+
+/**
+ * Creates the `Lerp` used between the keyframe at `index` and the next one.
+ * This allows interpolations which depend on the surrounding keyframes,
+ * like splines.
+ */
+export type KeyframeInterpolation<T> = (
+	keyframes: Timed<T>[],
+	index: number,
+) => Lerp<T>;
+
+/** Creates a `KeyframeInterpolation` which uses `lerp` between any keyframes. */
+export function piecewiseInterpolation<T>(
+	lerp: Lerp<T>,
+): KeyframeInterpolation<T> {
+	return () => lerp;
+}
+
+function assertSortedKeyframes(keyframes: Timed<unknown>[]): void {
+	for (let i = 1; i < keyframes.length; i++) {
+		if (keyframes[i].time.isLessThan(keyframes[i - 1].time)) {
+			throw new RangeError(
+				`Keyframes should be sorted by time, but keyframe ${i} ` +
+					`(at ${keyframes[i].time.frame}) comes before keyframe ${i - 1} ` +
+					`(at ${keyframes[i - 1].time.frame})`,
+			);
+		}
+	}
+}
+
 /**
  * Creates an `Animation` from a list of keyframes, where each keyframe
  * defines a value at a certain time. The resulting animation will interpolate
- * between the keyframes using the given `lerp` function and `easing` function.
+ * between the keyframes using the `Lerp` created by `interpolation`, and the
+ * `easing` function (unless the keyframe overrides it).
  *
- * @param keyframes A list of keyframes, should be sorted by time.
+ * @param keyframes A list of keyframes, must be sorted by time.
+ * @throws {RangeError} When the keyframes are not sorted.
  */
-export function animationFromKeyframes<T>(
-	keyframes: Timed<T>[],
-	lerp: Lerp<T>,
+export function interpolateKeyframes<T>(
+	keyframes: Keyframe<T>[],
+	interpolation: KeyframeInterpolation<T>,
 	easing: (input: number) => number,
 	sequenceStrategy: TimeTransformStrategy = clampTime,
 ): Animation<T> {
-	const tweenValue = defineTween(lerp);
+	assertSortedKeyframes(keyframes);
 	return new SequenceAnimation<T>(
 		keyframes.map((keyframe, i) => {
 			const nextKeyframe = keyframes[i + 1];
@@ -603,13 +1204,40 @@ export function animationFromKeyframes<T>(
 				return new ConstantAnimation(keyframe.value);
 			}
 			const duration = nextKeyframe.time.subtract(keyframe.time);
-			return tweenValue({
-				from: keyframe.value,
-				to: nextKeyframe.value,
+			if (keyframe.hold) {
+				return new ConstantAnimation(keyframe.value, duration);
+			}
+			return new Tween(
+				interpolation(keyframes, i),
+				keyframe.value,
+				nextKeyframe.value,
 				duration,
-				easing,
-			});
+				keyframe.easing ?? easing,
+			);
 		}),
 		sequenceStrategy,
 	);
 }
+
+/**
+ * Creates an `Animation` from a list of keyframes, where each keyframe
+ * defines a value at a certain time. The resulting animation will interpolate
+ * between the keyframes using the given `lerp` function and `easing` function
+ * (unless the keyframe overrides it).
+ *
+ * @param keyframes A list of keyframes, must be sorted by time.
+ * @throws {RangeError} When the keyframes are not sorted.
+ */
+export function animationFromKeyframes<T>(
+	keyframes: Keyframe<T>[],
+	lerp: Lerp<T>,
+	easing: (input: number) => number,
+	sequenceStrategy: TimeTransformStrategy = clampTime,
+): Animation<T> {
+	return interpolateKeyframes(
+		keyframes,
+		piecewiseInterpolation(lerp),
+		easing,
+		sequenceStrategy,
+	);
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import {
+	ConstantAnimation,
+	Duration,
+	FrameRate,
+	fromAnimationProperties,
+	interpolateKeyframes,
+} from "./core.ts";
+import { easings } from "./easings.ts";
+import { catmullRomNumber, tweenNumber } from "./std.ts";
+
+const frames = (frame: number) => new Duration(frame);
+
+Deno.test("tweens between equal values are the same at any time", () => {
+	const tween = tweenNumber({ from: 5, to: 5, duration: frames(10) });
+	assert.ok(tween.isSameAt(frames(2), frames(8)));
+});
+
+Deno.test("spline segments between equal keyframes are not constant", () => {
+	const animation = interpolateKeyframes(
+		[
+			{ time: frames(0), value: 0 },
+			{ time: frames(10), value: 10 },
+			{ time: frames(20), value: 10 },
+			{ time: frames(30), value: 0 },
+		],
+		catmullRomNumber,
+		easings.linear,
+	);
+	assert.equal(animation.at(frames(10)), 10);
+	assert.equal(animation.at(frames(15)), 11.25);
+	assert.equal(animation.isSameAt(frames(10), frames(15)), false);
+});
+
+Deno.test("extended animations are padded before and after", () => {
+	const tween = tweenNumber({ from: 0, to: 10, duration: frames(10) });
+	const extended = tween.extend({ before: frames(5), after: frames(5) });
+	assert.equal(extended.duration.frame, 20);
+	assert.deepEqual(
+		[0, 5, 10, 15, 20, 25].map((frame) => extended.at(frames(frame))),
+		[0, 0, 5, 10, 10, 10],
+	);
+	assert.ok(extended.isSameAt(frames(0), frames(4)));
+	assert.ok(extended.isSameAt(frames(16), frames(20)));
+	assert.equal(extended.isSameAt(frames(5), frames(6)), false);
+});
+
+Deno.test("property animations combine their animations", () => {
+	const animation = fromAnimationProperties({
+		x: tweenNumber({ from: 0, to: 10, duration: frames(10) }),
+		label: new ConstantAnimation("a", frames(4)),
+	});
+	assert.equal(animation.duration.frame, 10);
+	assert.deepEqual(animation.at(frames(5)), { x: 5, label: "a" });
+	assert.deepEqual(animation.at(frames(20)), { x: 10, label: "a" });
+	assert.equal(animation.isSameAt(frames(2), frames(3)), false);
+	assert.ok(animation.isSameAt(frames(10), frames(12)));
+	const constant = fromAnimationProperties({
+		label: new ConstantAnimation("a", frames(4)),
+	});
+	assert.ok(constant.isSameAt(frames(0), frames(3)));
+});
+
+Deno.test("frame rates convert between seconds and frames", () => {
+	const rate = new FrameRate(24);
+	assert.equal(rate.seconds(1.5).frame, 36);
+	assert.equal(rate.milliseconds(125).frame, 3);
+	// Sub-frame precision is kept, unlike in `Duration.fromSeconds()`
+	assert.equal(rate.seconds(0.01).frame, 0.24);
+	assert.equal(Duration.fromSeconds(0.01, 24).frame, 1);
+	assert.equal(rate.toSeconds(frames(60)), 2.5);
+	assert.equal(rate.convert(frames(48), new FrameRate(60)).frame, 120);
+	assert.throws(() => new FrameRate(0), RangeError);
+	assert.throws(() => new FrameRate(NaN), RangeError);
+});
+
+Deno.test("retimed animations play at the same speed in seconds", () => {
+	const from = new FrameRate(24);
+	const to = new FrameRate(60);
+	const tween = tweenNumber({ from: 0, to: 100, duration: from.seconds(1) });
+	const retimed = tween.retime(from, to);
+	assert.equal(retimed.duration.frame, 60);
+	assert.equal(retimed.at(to.seconds(0.5)), 50);
+	// Frames in between source frames are evaluated at fractional times
+	assert.equal(retimed.at(frames(1)), 100 * 0.4 / 24);
+	// Durations which don't convert evenly are rounded up
+	const short = tweenNumber({ from: 0, to: 1, duration: frames(5) });
+	assert.equal(short.retime(to, from).duration.frame, 2);
+	assert.equal(short.retime(to, from).at(frames(2)), 1);
+});
@@ -66,3 +66,205 @@ export const easings: {
 			? 8 * input * input * input * input
 			: 1 - Math.pow(-2 * input + 2, 4) / 2,
 };
+
+/**
+ * Creates an easing from a cubic bezier curve going from (0, 0) to (1, 1),
+ * with the same semantics as the CSS `cubic-bezier()` function.
+ *
+ * @throws {RangeError} When `x1` or `x2` is outside of [0, 1].
+ */
+export function cubicBezier(
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number,
+): Easing {
+	if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+		throw new RangeError(
+			`cubicBezier x values should be in [0, 1], got ${x1} and ${x2}`,
+		);
+	}
+	// Polynomial coefficients, the curve is ((a * t + b) * t + c) * t
+	const cx = 3 * x1;
+	const bx = 3 * (x2 - x1) - cx;
+	const ax = 1 - cx - bx;
+	const cy = 3 * y1;
+	const by = 3 * (y2 - y1) - cy;
+	const ay = 1 - cy - by;
+	const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+	const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+	const sampleDerivativeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+	const solveX = (x: number): number => {
+		// Newton's method converges quickly in most cases
+		let t = x;
+		for (let i = 0; i < 8; i++) {
+			const error = sampleX(t) - x;
+			if (Math.abs(error) < 1e-7) return t;
+			const derivative = sampleDerivativeX(t);
+			if (Math.abs(derivative) < 1e-6) break;
+			t -= error / derivative;
+		}
+		// Fall back to bisection, which always converges
+		let low = 0;
+		let high = 1;
+		t = x;
+		while (high - low > 1e-7) {
+			if (sampleX(t) < x) low = t;
+			else high = t;
+			t = (low + high) / 2;
+		}
+		return t;
+	};
+
+	return (input) => {
+		if (input <= 0 || input >= 1) return input;
+		return sampleY(solveX(input));
+	};
+}
+
+/**
+ * When the jumps of a `steps()` easing happen, same as in the CSS `steps()`
+ * function. `"start"` and `"end"` are aliases of `"jump-start"` and
+ * `"jump-end"`.
+ */
+export type StepJumpMode =
+	| "jump-start"
+	| "jump-end"
+	| "jump-none"
+	| "jump-both"
+	| "start"
+	| "end";
+
+/**
+ * Creates an easing which jumps between `count` discrete values, with the
+ * same semantics as the CSS `steps()` function.
+ */
+export function steps(count: number, jumpMode: StepJumpMode = "end"): Easing {
+	const jumpsAtStart = jumpMode === "jump-start" || jumpMode === "start" ||
+		jumpMode === "jump-both";
+	const jumps = jumpMode === "jump-both"
+		? count + 1
+		: jumpMode === "jump-none"
+		? count - 1
+		: count;
+	if (!Number.isInteger(count) || jumps < 1) {
+		throw new RangeError(`Invalid number of steps for ${jumpMode}: ${count}`);
+	}
+	return (input) => {
+		let step = Math.floor(input * count);
+		if (jumpsAtStart) step++;
+		if (input >= 0 && step < 0) step = 0;
+		if (input <= 1 && step > jumps) step = jumps;
+		return step / jumps;
+	};
+}
+
+/** Flips an easing, turning an "ease in" into an "ease out" and vice versa. */
+export function reverseEasing(easing: Easing): Easing {
+	return (input) => 1 - easing(1 - input);
+}
+
+/**
+ * Creates an "ease in-out" from an "ease in", by running it in the first
+ * half and its reverse in the second half.
+ */
+export function mirrorEasing(easing: Easing): Easing {
+	return (input) =>
+		input < 0.5 ? easing(input * 2) / 2 : 1 - easing(2 - input * 2) / 2;
+}
+
+/**
+ * Runs the easings one after the other, each taking an equal part of both
+ * the input and the output.
+ *
+ * @throws {RangeError} When no easings are given.
+ */
+export function chainEasings(...parts: Easing[]): Easing {
+	if (!parts.length) {
+		throw new RangeError("chainEasings needs at least one easing");
+	}
+	return (input) => {
+		const index = Math.min(
+			parts.length - 1,
+			Math.max(0, Math.floor(input * parts.length)),
+		);
+		const localInput = input * parts.length - index;
+		return (index + parts[index](localInput)) / parts.length;
+	};
+}
+
+/**
+ * Blends two easings together, `weight` is how much of `b` is used, and can
+ * itself be an easing to change the blend over time.
+ */
+export function blendEasings(
+	a: Easing,
+	b: Easing,
+	weight: number | Easing = 0.5,
+): Easing {
+	return (input) => {
+		const w = typeof weight === "number" ? weight : weight(input);
+		return a(input) * (1 - w) + b(input) * w;
+	};
+}
+
+/** The "in", "out" and "in-out" variants of an easing curve. */
+export type EasingFamily = {
+	in: Easing;
+	out: Easing;
+	inOut: Easing;
+};
+
+/** Creates an `EasingFamily` based on its "ease in" variant. */
+export function easingFamily(easeIn: Easing): EasingFamily {
+	return {
+		in: easeIn,
+		out: reverseEasing(easeIn),
+		inOut: mirrorEasing(easeIn),
+	};
+}
+
+/** Easings based on `input` raised to the power of `exponent`. */
+export function polynomial(exponent: number): EasingFamily {
+	return easingFamily((input) => Math.pow(input, exponent));
+}
+
+/** Exponential easings, `steepness` is 10 for the common "expo" curves. */
+export function exponential(steepness: number = 10): EasingFamily {
+	return easingFamily((input) =>
+		input <= 0 ? 0 : Math.pow(2, steepness * (input - 1))
+	);
+}
+
+/** Easings which overshoot, the default `overshoot` is the common value. */
+export function back(overshoot: number = 1.70158): EasingFamily {
+	return easingFamily((input) =>
+		(overshoot + 1) * input * input * input - overshoot * input * input
+	);
+}
+
+/**
+ * Easings which oscillate like a spring, `period` is the length of a single
+ * oscillation as a fraction of the duration.
+ */
+export function elastic(
+	amplitude: number = 1,
+	period: number = 0.3,
+): EasingFamily {
+	const a = Math.max(1, amplitude);
+	const shift = period / (2 * Math.PI) * Math.asin(1 / a);
+	return easingFamily((input) => {
+		if (input <= 0 || input >= 1) return input;
+		return -a * Math.pow(2, 10 * (input - 1)) *
+			Math.sin((input - 1 - shift) * 2 * Math.PI / period);
+	});
+}
+
+export const sine: EasingFamily = easingFamily((input) =>
+	1 - Math.cos(input * Math.PI / 2)
+);
+
+export const circular: EasingFamily = easingFamily((input) =>
+	1 - Math.sqrt(1 - input * input)
+);
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import {
+	back,
+	blendEasings,
+	chainEasings,
+	cubicBezier,
+	Easing,
+	easings,
+	mirrorEasing,
+	reverseEasing,
+	steps,
+} from "./easings.ts";
+
+const sample = (easing: Easing, inputs: number[]) =>
+	inputs.map((input) => Math.round(easing(input) * 1e4) / 1e4);
+
+Deno.test("cubic beziers match the CSS keyword curves", () => {
+	const linear = cubicBezier(0, 0, 1, 1);
+	assert.deepEqual(sample(linear, [0, 0.25, 0.5, 1]), [0, 0.25, 0.5, 1]);
+	// CSS `ease-in-out` is symmetric around the middle
+	const easeInOut = cubicBezier(0.42, 0, 0.58, 1);
+	assert.equal(sample(easeInOut, [0.5])[0], 0.5);
+	assert.equal(
+		sample(easeInOut, [0.2])[0],
+		sample((input) => 1 - easeInOut(1 - input), [0.2])[0],
+	);
+	assert.ok(easeInOut(0.1) < 0.1);
+	// Y values outside of [0, 1] overshoot
+	assert.ok(cubicBezier(0.3, 1.5, 0.7, 1.5)(0.5) > 1);
+	assert.throws(() => cubicBezier(-0.1, 0, 1, 1), RangeError);
+	assert.throws(() => cubicBezier(0, 0, 1.1, 1), RangeError);
+});
+
+Deno.test("steps follow the CSS jump modes", () => {
+	const inputs = [0, 0.2, 0.5, 0.99, 1];
+	assert.deepEqual(sample(steps(2), inputs), [0, 0, 0.5, 0.5, 1]);
+	assert.deepEqual(sample(steps(2, "start"), inputs), [0.5, 0.5, 1, 1, 1]);
+	assert.deepEqual(sample(steps(3, "jump-none"), [0, 0.2, 0.5, 0.7, 1]), [
+		0,
+		0,
+		0.5,
+		1,
+		1,
+	]);
+	assert.deepEqual(sample(steps(2, "jump-both"), inputs), [
+		0.3333,
+		0.3333,
+		0.6667,
+		0.6667,
+		1,
+	]);
+	assert.throws(() => steps(1, "jump-none"), RangeError);
+	assert.throws(() => steps(1.5), RangeError);
+});
+
+Deno.test("reverses and mirrors easings", () => {
+	const easeIn = (input: number) => input * input;
+	assert.deepEqual(sample(reverseEasing(easeIn), [0, 0.5, 1]), [0, 0.75, 1]);
+	assert.deepEqual(
+		sample(mirrorEasing(easeIn), [0, 0.25, 0.5, 0.75, 1]),
+		[0, 0.125, 0.5, 0.875, 1],
+	);
+	assert.deepEqual(
+		sample(back().out, [0.5]),
+		sample((input) => 1 - back().in(1 - input), [0.5]),
+	);
+});
+
+Deno.test("chains easings over equal parts", () => {
+	const chained = chainEasings(easings.linear, steps(1, "start"));
+	assert.deepEqual(sample(chained, [0, 0.25, 0.5, 0.6, 1]), [
+		0,
+		0.25,
+		1,
+		1,
+		1,
+	]);
+	assert.throws(() => chainEasings(), RangeError);
+});
+
+Deno.test("blends easings by a fixed or eased weight", () => {
+	const zero = () => 0;
+	const one = () => 1;
+	assert.deepEqual(sample(blendEasings(zero, one), [0.3]), [0.5]);
+	assert.deepEqual(sample(blendEasings(zero, one, 0.25), [0.3]), [0.25]);
+	assert.deepEqual(sample(blendEasings(zero, one, easings.linear), [0.3]), [
+		0.3,
+	]);
+});
@@ -0,0 +1,159 @@
+import { defineTween, Lerp, TweenCreator } from "./core.ts";
+import {
+	lerpRgbaColorInOklab,
+	parseColor,
+	RgbaColor,
+	rgbaToString,
+} from "./colors.ts";
+import {
+	ColorStop,
+	Gradient,
+	lerpNumber,
+	lerpPoint,
+	LinearGradient,
+	Point,
+	Style,
+} from "./std.ts";
+
+/** Interpolates two CSS colors through OKLab, returning an `rgba()` string. */
+export const lerpColorString: Lerp<string> = (a, b, t) =>
+	rgbaToString(lerpRgbaColorInOklab(parseColor(a), parseColor(b), t));
+
+export const tweenColorString: TweenCreator<string> = defineTween(
+	lerpColorString,
+	{ constantWhenEqual: true },
+);
+
+/**
+ * Evaluates the color of a gradient at `offset`, like the canvas does. A
+ * gradient without stops is transparent black.
+ */
+function colorAtOffset(stops: ColorStop[], offset: number): RgbaColor {
+	if (!stops.length) return { r: 0, g: 0, b: 0, a: 0 };
+	const sorted = [...stops].sort((a, b) => a.offset - b.offset);
+	const nextIndex = sorted.findIndex((stop) => stop.offset > offset);
+	if (nextIndex === -1) return parseColor(sorted[sorted.length - 1].color);
+	if (nextIndex === 0) return parseColor(sorted[0].color);
+	const previous = sorted[nextIndex - 1];
+	const next = sorted[nextIndex];
+	const t = (offset - previous.offset) / (next.offset - previous.offset);
+	const from = parseColor(previous.color);
+	const to = parseColor(next.color);
+	return {
+		r: lerpNumber(from.r, to.r, t),
+		g: lerpNumber(from.g, to.g, t),
+		b: lerpNumber(from.b, to.b, t),
+		a: lerpNumber(from.a, to.a, t),
+	};
+}
+
+/**
+ * Interpolates two lists of color stops. When they have the same number of
+ * stops, both the offsets and colors are interpolated pairwise, otherwise
+ * both gradients are sampled at the offsets of all stops. An empty list is
+ * transparent, like a `CanvasGradient` without stops.
+ */
+export const lerpColorStops: Lerp<ColorStop[]> = (a, b, t) => {
+	if (a.length === b.length) {
+		return a.map((stop, i) => ({
+			offset: lerpNumber(stop.offset, b[i].offset, t),
+			color: lerpColorString(stop.color, b[i].color, t),
+		}));
+	}
+	const offsets = [...new Set([...a, ...b].map((stop) => stop.offset))]
+		.sort((x, y) => x - y);
+	return offsets.map((offset) => ({
+		offset,
+		color: rgbaToString(
+			lerpRgbaColorInOklab(
+				colorAtOffset(a, offset),
+				colorAtOffset(b, offset),
+				t,
+			),
+		),
+	}));
+};
+
+/**
+ * Interpolates two gradients. Gradients of different types can't be
+ * interpolated, so `a` is used until the end of the animation.
+ */
+export const lerpGradient: Lerp<Gradient> = (a, b, t) => {
+	const stops = lerpColorStops(a.stops, b.stops, t);
+	if (a.type === "linear" && b.type === "linear") {
+		return {
+			type: "linear",
+			from: lerpPoint(a.from, b.from, t),
+			to: lerpPoint(a.to, b.to, t),
+			stops,
+		};
+	}
+	if (a.type === "radial" && b.type === "radial") {
+		return {
+			type: "radial",
+			from: lerpPoint(a.from, b.from, t),
+			fromRadius: lerpNumber(a.fromRadius, b.fromRadius, t),
+			to: lerpPoint(a.to, b.to, t),
+			toRadius: lerpNumber(a.toRadius, b.toRadius, t),
+			stops,
+		};
+	}
+	if (a.type === "conic" && b.type === "conic") {
+		return {
+			type: "conic",
+			center: lerpPoint(a.center, b.center, t),
+			startAngleDegrees: lerpNumber(
+				a.startAngleDegrees,
+				b.startAngleDegrees,
+				t,
+			),
+			stops,
+		};
+	}
+	return t < 1 ? a : b;
+};
+
+export const tweenGradient: TweenCreator<Gradient> = defineTween(
+	lerpGradient,
+);
+
+/** Creates a gradient with the geometry of `shape`, filled with `color`. */
+function solidGradient(shape: Gradient, color: string): Gradient {
+	return {
+		...shape,
+		stops: shape.stops.map((stop) => ({ offset: stop.offset, color })),
+	};
+}
+
+/**
+ * Interpolates fill or stroke styles. Colors are interpolated with
+ * `lerpColorString`, and a color interpolated with a gradient is treated as
+ * a gradient of a single color.
+ */
+export const lerpStyle: Lerp<Style> = (a, b, t) => {
+	if (typeof a === "string" && typeof b === "string") {
+		return lerpColorString(a, b, t);
+	}
+	if (typeof a === "string") a = solidGradient(b as Gradient, a);
+	if (typeof b === "string") b = solidGradient(a, b);
+	return lerpGradient(a, b, t);
+};
+
+export const tweenStyle: TweenCreator<Style> = defineTween(lerpStyle);
+
+/** Creates a `LinearGradient` with evenly spaced `colors`. */
+export function linearGradient(
+	from: Point,
+	to: Point,
+	colors: string[],
+): LinearGradient {
+	return { type: "linear", from, to, stops: evenStops(colors) };
+}
+
+/** Creates color stops with evenly spaced offsets from 0 to 1. */
+export function evenStops(colors: string[]): ColorStop[] {
+	return colors.map((color, i) => ({
+		offset: colors.length > 1 ? i / (colors.length - 1) : 0,
+		color,
+	}));
+}
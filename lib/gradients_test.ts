@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { lerpColorStops } from "./gradients.ts";
+
+Deno.test("interpolates stops pairwise when their counts match", () => {
+	assert.deepEqual(
+		lerpColorStops(
+			[{ offset: 0, color: "#f00" }],
+			[{ offset: 1, color: "#f00" }],
+			0.5,
+		),
+		[{ offset: 0.5, color: "rgba(255, 0, 0, 1)" }],
+	);
+});
+
+Deno.test("interpolates empty stop lists as transparent", () => {
+	assert.deepEqual(lerpColorStops([], [], 0.5), []);
+	const [stop] = lerpColorStops([], [{ offset: 0, color: "#f00" }], 0.5);
+	assert.equal(stop.offset, 0);
+	assert.match(stop.color, /, 0\.5\)$/);
+	assert.deepEqual(
+		lerpColorStops([{ offset: 0, color: "#f00" }], [], 1),
+		[{ offset: 0, color: "rgba(0, 0, 0, 0)" }],
+	);
+});
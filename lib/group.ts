@@ -0,0 +1,168 @@
+import { Lerp, Painter } from "./core.ts";
+import { lerpColorString } from "./gradients.ts";
+import {
+	acquireLayer,
+	drawLayer,
+	LayerFactory,
+	releaseLayer,
+} from "./layers.ts";
+import { lerpNumber, lerpPoint, Point } from "./std.ts";
+
+export type ShadowSettings = {
+	color: string;
+	blur: number;
+	offset: Point;
+};
+
+/**
+ * CSS filter functions, applied in the order they are listed here. Missing
+ * values are left out of the filter.
+ */
+export type FilterSettings = {
+	blur?: number;
+	brightness?: number;
+	contrast?: number;
+	grayscale?: number;
+	hueRotateDegrees?: number;
+	invert?: number;
+	saturate?: number;
+	sepia?: number;
+};
+
+export type GroupSettings = {
+	/** Multiplied with the current opacity of the context. */
+	opacity?: number;
+	blendMode?: GlobalCompositeOperation;
+	shadow?: ShadowSettings;
+	filter?: FilterSettings;
+	/**
+	 * When given, the children are painted to an offscreen layer, which is
+	 * then painted with the group's settings as a whole. This makes opacity
+	 * and blending correct for overlapping children, and applies the shadow
+	 * and filter to the group instead of each child.
+	 */
+	createLayer?: LayerFactory;
+};
+
+const filterFunctions: [keyof FilterSettings, string, string][] = [
+	["blur", "blur", "px"],
+	["brightness", "brightness", ""],
+	["contrast", "contrast", ""],
+	["grayscale", "grayscale", ""],
+	["hueRotateDegrees", "hue-rotate", "deg"],
+	["invert", "invert", ""],
+	["saturate", "saturate", ""],
+	["sepia", "sepia", ""],
+];
+
+/** Converts `FilterSettings` to a CSS filter string, like `"blur(2px)"`. */
+export function filterToString(filter: FilterSettings): string {
+	const functions = filterFunctions
+		.filter(([key]) => filter[key] !== undefined)
+		.map(([key, name, unit]) => `${name}(${filter[key]}${unit})`);
+	return functions.length ? functions.join(" ") : "none";
+}
+
+const filterDefaults: Required<FilterSettings> = {
+	blur: 0,
+	brightness: 1,
+	contrast: 1,
+	grayscale: 0,
+	hueRotateDegrees: 0,
+	invert: 0,
+	saturate: 1,
+	sepia: 0,
+};
+
+/**
+ * Interpolates filters, a function missing from one of them is interpolated
+ * from (or to) its neutral value.
+ */
+export const lerpFilterSettings: Lerp<FilterSettings> = (a, b, t) => {
+	const result: FilterSettings = {};
+	for (const [key] of filterFunctions) {
+		if (a[key] === undefined && b[key] === undefined) continue;
+		result[key] = lerpNumber(
+			a[key] ?? filterDefaults[key],
+			b[key] ?? filterDefaults[key],
+			t,
+		);
+	}
+	return result;
+};
+
+export const lerpShadowSettings: Lerp<ShadowSettings> = (a, b, t) => ({
+	color: lerpColorString(a.color, b.color, t),
+	blur: lerpNumber(a.blur, b.blur, t),
+	offset: lerpPoint(a.offset, b.offset, t),
+});
+
+const transparentShadow = (shadow: ShadowSettings): ShadowSettings => ({
+	...shadow,
+	color: "rgba(0, 0, 0, 0)",
+});
+
+export const lerpGroupSettings: Lerp<GroupSettings> = (a, b, t) => ({
+	opacity: lerpNumber(a.opacity ?? 1, b.opacity ?? 1, t),
+	blendMode: a.blendMode,
+	shadow: a.shadow || b.shadow
+		? lerpShadowSettings(
+			a.shadow ?? transparentShadow(b.shadow!),
+			b.shadow ?? transparentShadow(a.shadow!),
+			t,
+		)
+		: undefined,
+	filter: a.filter || b.filter
+		? lerpFilterSettings(a.filter ?? {}, b.filter ?? {}, t)
+		: undefined,
+	createLayer: a.createLayer,
+});
+
+function applyGroupSettings(
+	context: CanvasRenderingContext2D,
+	settings: GroupSettings,
+): void {
+	const { opacity, blendMode, shadow, filter } = settings;
+	if (opacity !== undefined) context.globalAlpha *= opacity;
+	if (blendMode) context.globalCompositeOperation = blendMode;
+	if (shadow) {
+		context.shadowColor = shadow.color;
+		context.shadowBlur = shadow.blur;
+		context.shadowOffsetX = shadow.offset.x;
+		context.shadowOffsetY = shadow.offset.y;
+	}
+	if (filter) context.filter = filterToString(filter);
+}
+
+/**
+ * Creates a painter which paints all `painters` with the opacity, blend
+ * mode, shadow and filter given in `settings`.
+ */
+export function createGroupPainter(
+	settings: GroupSettings,
+	painters: Painter[],
+): Painter {
+	return (context) => {
+		if (settings.opacity === 0) return;
+		const { createLayer } = settings;
+		if (!createLayer) {
+			context.save();
+			applyGroupSettings(context, settings);
+			for (const painter of painters) painter(context);
+			context.restore();
+			return;
+		}
+
+		const layer = acquireLayer(createLayer, context);
+		try {
+			for (const painter of painters) painter(layer);
+
+			context.save();
+			applyGroupSettings(context, settings);
+			drawLayer(context, layer);
+			context.restore();
+		} finally {
+			releaseLayer(createLayer, layer);
+		}
+	};
+}
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { createGroupPainter } from "./group.ts";
+import {
+	RecordingContext,
+	recordPainter,
+	snapshotCommands,
+} from "./recording.ts";
+import { createRectPainter, Point } from "./std.ts";
+
+const size = { x: 100, y: 50 };
+
+const square = createRectPainter({
+	position: { x: 0, y: 0 },
+	size: { x: 10, y: 10 },
+	fillStyle: "red",
+});
+
+/** Creates a layer factory, which keeps the recorders of its layers. */
+function createLayers() {
+	const recorders: RecordingContext[] = [];
+	const createLayer = (size: Point) => {
+		const recorder = new RecordingContext({ size });
+		recorders.push(recorder);
+		return recorder.context;
+	};
+	return { recorders, createLayer };
+}
+
+Deno.test("applies group settings around its painters", () => {
+	const painter = createGroupPainter({
+		opacity: 0.5,
+		blendMode: "multiply",
+		shadow: { color: "black", blur: 4, offset: { x: 1, y: 2 } },
+		filter: { blur: 2, grayscale: 1 },
+	}, [square]);
+	assert.deepEqual(snapshotCommands(recordPainter(painter)), [
+		"save()",
+		"  globalAlpha = 0.5",
+		'  globalCompositeOperation = "multiply"',
+		'  shadowColor = "black"',
+		"  shadowBlur = 4",
+		"  shadowOffsetX = 1",
+		"  shadowOffsetY = 2",
+		'  filter = "blur(2px) grayscale(1)"',
+		'  fillStyle = "red"',
+		"  fillRect(0, 0, 10, 10)",
+		"restore()",
+	]);
+	assert.deepEqual(
+		recordPainter(createGroupPainter({ opacity: 0 }, [square])),
+		[],
+	);
+});
+
+Deno.test("paints layered groups onto a layer in the same transform", () => {
+	const { recorders, createLayer } = createLayers();
+	const painter = createGroupPainter({ opacity: 0.5, createLayer }, [square]);
+	const commands = recordPainter((context) => {
+		context.translate(10, 5);
+		painter(context);
+	}, { size });
+	assert.deepEqual(snapshotCommands(commands), [
+		"translate(10, 5)",
+		"save()",
+		"  globalAlpha = 0.5",
+		"  save()",
+		"    setTransform(1, 0, 0, 1, 0, 0)",
+		"    drawImage({ width: 100, height: 50 }, 0, 0)",
+		"  restore()",
+		"restore()",
+	]);
+	assert.deepEqual(snapshotCommands(recorders[0].commands), [
+		"save()",
+		"  setTransform(1, 0, 0, 1, 0, 0)",
+		"  clearRect(0, 0, 100, 50)",
+		"  setTransform(1, 0, 0, 1, 10, 5)",
+		'  fillStyle = "red"',
+		"  fillRect(0, 0, 10, 10)",
+		"restore()",
+	]);
+});
+
+Deno.test("releases the layer of a group when a painter throws", () => {
+	const { recorders, createLayer } = createLayers();
+	const failing = createGroupPainter({ createLayer }, [() => {
+		throw new Error("Failed");
+	}]);
+	assert.throws(() => recordPainter(failing, { size }), /Failed/);
+	assert.equal(snapshotCommands(recorders[0].commands).at(-1), "restore()");
+	// The released layer is reused by the next group
+	recordPainter(createGroupPainter({ createLayer }, [square]), { size });
+	assert.equal(recorders.length, 1);
+});
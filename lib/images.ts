@@ -0,0 +1,274 @@
+import {
+	Animation,
+	CallbackAnimation,
+	clampTime,
+	Duration,
+	Painter,
+	TimeTransformStrategy,
+} from "./core.ts";
+import { Point, Rect } from "./std.ts";
+
+/**
+ * Any image which can be drawn on a canvas and has a size, like an
+ * `HTMLImageElement` in the browser, or an `Image` from `@napi-rs/canvas`.
+ */
+export type ImageSource = { width: number; height: number };
+
+/**
+ * How an image is fitted into its box, like the CSS `object-fit` property:
+ * - `fill` stretches the image to the box
+ * - `contain` scales the image to fit inside the box
+ * - `cover` scales the image to cover the box, cropping the rest
+ * - `none` keeps the image's size, cropping whatever is outside the box
+ */
+export type ImageFit = "fill" | "contain" | "cover" | "none";
+
+export type ImageSettings = {
+	image: ImageSource;
+	/** The box the image is drawn in. */
+	position: Point;
+	size: Point;
+	/** Defaults to `fill`. */
+	fit?: ImageFit;
+	/**
+	 * Where the image is placed inside the box when it doesn't fill it, from
+	 * (0, 0) for the top left to (1, 1) for the bottom right. Defaults to the
+	 * center.
+	 */
+	align?: Point;
+	/** The region of the image to draw, defaults to the whole image. */
+	source?: Rect;
+};
+
+function fitScale(fit: ImageFit, box: Point, source: Point): Point {
+	switch (fit) {
+		case "fill":
+			return { x: box.x / source.x, y: box.y / source.y };
+		case "contain": {
+			const scale = Math.min(box.x / source.x, box.y / source.y);
+			return { x: scale, y: scale };
+		}
+		case "cover": {
+			const scale = Math.max(box.x / source.x, box.y / source.y);
+			return { x: scale, y: scale };
+		}
+		case "none":
+			return { x: 1, y: 1 };
+	}
+}
+
+/**
+ * Computes the region of the source image to draw and where to draw it, so
+ * the image is fitted into the box according to `settings`.
+ */
+export function fitImage(settings: ImageSettings): [Rect, Rect] {
+	const {
+		image,
+		position,
+		size,
+		fit = "fill",
+		align = { x: 0.5, y: 0.5 },
+	} = settings;
+	const source = settings.source ??
+		{ position: { x: 0, y: 0 }, size: { x: image.width, y: image.height } };
+	const scale = fitScale(fit, size, source.size);
+	// Only the part of the source which ends up inside the box is drawn
+	const visible = {
+		x: Math.min(source.size.x, size.x / scale.x),
+		y: Math.min(source.size.y, size.y / scale.y),
+	};
+	const destinationSize = { x: visible.x * scale.x, y: visible.y * scale.y };
+	return [
+		{
+			position: {
+				x: source.position.x + (source.size.x - visible.x) * align.x,
+				y: source.position.y + (source.size.y - visible.y) * align.y,
+			},
+			size: visible,
+		},
+		{
+			position: {
+				x: position.x + (size.x - destinationSize.x) * align.x,
+				y: position.y + (size.y - destinationSize.y) * align.y,
+			},
+			size: destinationSize,
+		},
+	];
+}
+
+export function createImagePainter(settings: ImageSettings): Painter {
+	return (context) => {
+		const [source, destination] = fitImage(settings);
+		if (!destination.size.x || !destination.size.y) return;
+		context.drawImage(
+			settings.image as CanvasImageSource,
+			source.position.x,
+			source.position.y,
+			source.size.x,
+			source.size.y,
+			destination.position.x,
+			destination.position.y,
+			destination.size.x,
+			destination.size.y,
+		);
+	};
+}
+
+export type FrameSequenceSettings = {
+	/** Frames per second of the scene the animation is used in. */
+	frameRate: number;
+	/** Frames per second the images are played at. */
+	imageFrameRate: number;
+	/** Use `wrapTime` to loop the sequence. Defaults to `clampTime`. */
+	strategy?: TimeTransformStrategy;
+};
+
+/**
+ * Creates an `Animation` which evaluates to the index of the image that should
+ * be shown in a sequence of `count` images, played at `imageFrameRate`.
+ */
+export function animateFrameIndex(
+	count: number,
+	settings: FrameSequenceSettings,
+): Animation<number> {
+	const { frameRate, imageFrameRate, strategy = clampTime } = settings;
+	const indexAt = (time: Duration) =>
+		Math.min(
+			count - 1,
+			Math.floor(time.toSeconds(frameRate) * imageFrameRate),
+		);
+	return new CallbackAnimation(
+		Duration.fromSeconds(count / imageFrameRate, frameRate),
+		strategy,
+		indexAt,
+		(a, b) => indexAt(a) === indexAt(b),
+	);
+}
+
+/** A grid of equally sized frames in a single image. */
+export type SpriteSheet = {
+	image: ImageSource;
+	frameSize: Point;
+	/** Defaults to every frame that fits in the image. */
+	frameCount?: number;
+	/** Space between frames, defaults to none. */
+	spacing?: Point;
+};
+
+/**
+ * Returns the regions of each frame of the sprite sheet, row by row.
+ *
+ * @throws {RangeError} When not even one frame fits in the image.
+ */
+export function spriteSheetFrames(sheet: SpriteSheet): Rect[] {
+	const { image, frameSize, spacing = { x: 0, y: 0 } } = sheet;
+	const columns = Math.floor(
+		(image.width + spacing.x) / (frameSize.x + spacing.x),
+	);
+	const rows = Math.floor(
+		(image.height + spacing.y) / (frameSize.y + spacing.y),
+	);
+	if (
+		!(frameSize.x > 0 && frameSize.y > 0 && columns >= 1 && rows >= 1)
+	) {
+		throw new RangeError(
+			`Frames of ${frameSize.x}x${frameSize.y} don't fit in a ${image.width}x${image.height} sprite sheet`,
+		);
+	}
+	const count = sheet.frameCount ?? columns * rows;
+	return Array.from({ length: count }, (_, i) => ({
+		position: {
+			x: (i % columns) * (frameSize.x + spacing.x),
+			y: Math.floor(i / columns) * (frameSize.y + spacing.y),
+		},
+		size: frameSize,
+	}));
+}
+
+/**
+ * Creates an `Animation` which plays the frames of a sprite sheet. The
+ * result can be spread into `ImageSettings`.
+ */
+export function animateSpriteSheet(
+	sheet: SpriteSheet,
+	settings: FrameSequenceSettings,
+): Animation<Pick<ImageSettings, "image" | "source">> {
+	const frames = spriteSheetFrames(sheet);
+	return animateFrameIndex(frames.length, settings)
+		.derive((index) => ({ image: sheet.image, source: frames[index] }));
+}
+
+/** Creates an `Animation` which plays a sequence of separate images. */
+export function animateImageSequence(
+	images: ImageSource[],
+	settings: FrameSequenceSettings,
+): Animation<ImageSource> {
+	return animateFrameIndex(images.length, settings)
+		.derive((index) => images[index]);
+}
+
+/**
+ * Loads an image from a URL or path. `loadImage` from `@napi-rs/canvas` can
+ * be used directly as an `ImageLoader`, and `loadBrowserImage` works in the
+ * browser.
+ */
+export type ImageLoader = (source: string) => Promise<ImageSource>;
+
+export const loadBrowserImage: ImageLoader = (source) =>
+	new Promise((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error(`Failed to load image ${source}`));
+		image.src = source;
+	});
+
+/**
+ * Loads and caches images with an `ImageLoader`. Animations are evaluated
+ * synchronously, so images should be loaded before creating the animations
+ * that use them, and then retrieved with `get()`.
+ */
+export class AssetLibrary {
+	private readonly pending = new Map<string, Promise<ImageSource>>();
+	private readonly loaded = new Map<string, ImageSource>();
+
+	constructor(private readonly loader: ImageLoader) {}
+
+	load(source: string): Promise<ImageSource> {
+		let promise = this.pending.get(source);
+		if (!promise) {
+			promise = this.loader(source).then(
+				(image) => {
+					this.loaded.set(source, image);
+					return image;
+				},
+				(error) => {
+					// Failed loads aren't cached, so they can be retried
+					this.pending.delete(source);
+					throw error;
+				},
+			);
+			this.pending.set(source, promise);
+		}
+		return promise;
+	}
+
+	/** Loads all the given images, keyed by name. */
+	async loadAll<K extends string>(
+		sources: Record<K, string>,
+	): Promise<Record<K, ImageSource>> {
+		const keys = Object.keys(sources) as K[];
+		const images = await Promise.all(
+			keys.map((key) => this.load(sources[key])),
+		);
+		return Object.fromEntries(
+			keys.map((key, i) => [key, images[i]]),
+		) as Record<K, ImageSource>;
+	}
+
+	/** Returns an image which has already been loaded. */
+	get(source: string): ImageSource {
+		const image = this.loaded.get(source);
+		if (!image) throw new Error(`Image ${source} hasn't been loaded`);
+		return image;
+	}
+}
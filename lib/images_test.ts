@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { AssetLibrary, ImageSource, spriteSheetFrames } from "./images.ts";
+
+Deno.test("loads each image once", async () => {
+	let loads = 0;
+	const assets = new AssetLibrary((source) => {
+		loads++;
+		return Promise.resolve({ width: source.length, height: 1 });
+	});
+	const { a, b } = await assets.loadAll({ a: "one", b: "one" });
+	assert.equal(a, b);
+	assert.equal(loads, 1);
+	assert.equal(assets.get("one"), a);
+});
+
+Deno.test("retries images which failed to load", async () => {
+	const image: ImageSource = { width: 1, height: 1 };
+	let failures = 1;
+	const assets = new AssetLibrary(() =>
+		failures-- > 0
+			? Promise.reject(new Error("Offline"))
+			: Promise.resolve(image)
+	);
+	await assert.rejects(assets.load("image.png"), /Offline/);
+	assert.throws(() => assets.get("image.png"));
+	assert.equal(await assets.load("image.png"), image);
+	assert.equal(assets.get("image.png"), image);
+});
+
+Deno.test("splits sprite sheets into frames row by row", () => {
+	const image = { width: 22, height: 10 } as ImageSource;
+	const frames = spriteSheetFrames({
+		image,
+		frameSize: { x: 10, y: 4 },
+		spacing: { x: 2, y: 2 },
+	});
+	assert.deepEqual(frames.map((frame) => frame.position), [
+		{ x: 0, y: 0 },
+		{ x: 12, y: 0 },
+		{ x: 0, y: 6 },
+		{ x: 12, y: 6 },
+	]);
+	assert.throws(
+		() => spriteSheetFrames({ image, frameSize: { x: 30, y: 4 } }),
+		RangeError,
+	);
+	assert.throws(
+		() => spriteSheetFrames({ image, frameSize: { x: 0, y: 0 } }),
+		RangeError,
+	);
+});
@@ -0,0 +1,133 @@
+import { Animation, AnimationMetadata } from "./core.ts";
+
+/**
+ * A JSON-compatible tree describing an animation and the animations it's made
+ * of, see `inspectAnimation`. Times are in frames.
+ */
+export type AnimationTree = {
+	type: string;
+	name?: string;
+	/** What this animation is to its parent, like a property name. */
+	label?: string;
+	duration: number;
+	/**
+	 * When this animation starts and ends in the time of the root animation.
+	 * Left out below remapped animations (like `reversed()` or `slice()`),
+	 * whose time can't be placed on the root's timeline.
+	 */
+	start?: number;
+	end?: number;
+	metadata?: AnimationMetadata;
+	details?: AnimationMetadata;
+	children: AnimationTree[];
+};
+
+export type InspectSettings = {
+	/** How many levels of children to include, defaults to all of them. */
+	maxDepth?: number;
+};
+
+/**
+ * Builds a tree describing `animation` and everything it's made of, using
+ * `Animation.describe()` and `Animation.children()`. Animations which are
+ * used more than once appear once for every use.
+ */
+export function inspectAnimation(
+	animation: Animation<unknown>,
+	settings: InspectSettings = {},
+): AnimationTree {
+	const { maxDepth = Infinity } = settings;
+	const inspect = (
+		animation: Animation<unknown>,
+		start: number | undefined,
+		label: string | undefined,
+		depth: number,
+	): AnimationTree => {
+		const { type, name, duration, metadata, details } = animation.describe();
+		const children = depth < maxDepth ? animation.children() : [];
+		return {
+			type,
+			...(name !== undefined ? { name } : {}),
+			...(label !== undefined ? { label } : {}),
+			duration: duration.frame,
+			...(start !== undefined ? { start, end: start + duration.frame } : {}),
+			...(metadata ? { metadata } : {}),
+			...(details && Object.keys(details).length ? { details } : {}),
+			children: children.map((child) =>
+				inspect(
+					child.animation,
+					start !== undefined && child.start
+						? start + child.start.frame
+						: undefined,
+					child.label,
+					depth + 1,
+				)
+			),
+		};
+	};
+	return inspect(animation, 0, undefined, 0);
+}
+
+/** Formats the tree of `animation` as JSON, see `inspectAnimation`. */
+export function animationToJson(
+	animation: Animation<unknown>,
+	settings?: InspectSettings & { indent?: number },
+): string {
+	return JSON.stringify(
+		inspectAnimation(animation, settings),
+		null,
+		settings?.indent ?? 2,
+	);
+}
+
+function quoteDot(text: string): string {
+	return `"${text.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+function formatMetadata(metadata: AnimationMetadata): string[] {
+	return Object.entries(metadata).map(([key, value]) => `${key}: ${value}`);
+}
+
+/**
+ * Formats the tree of `animation` as a Graphviz DOT graph, with a node for
+ * each animation showing its type, name, timing and details. Render it with
+ * `dot -Tsvg`, for example.
+ */
+export function animationToDot(
+	animation: Animation<unknown>,
+	settings?: InspectSettings,
+): string {
+	const lines = [
+		"digraph animation {",
+		'\tnode [shape=box, fontname="monospace"];',
+	];
+	let count = 0;
+	const visit = (tree: AnimationTree): string => {
+		const id = `n${count++}`;
+		const timing = tree.start !== undefined
+			? `${tree.start} → ${tree.end} (${tree.duration}f)`
+			: `${tree.duration}f`;
+		const label = [
+			tree.name !== undefined ? `${tree.name}: ${tree.type}` : tree.type,
+			timing,
+			...formatMetadata(tree.details ?? {}),
+			...formatMetadata(tree.metadata ?? {}),
+		];
+		// Escaped newlines are centered lines in DOT labels
+		lines.push(
+			`\t${id} [label=${quoteDot(label.join("\n")).replaceAll("\n", "\\n")}];`,
+		);
+		for (const child of tree.children) {
+			const childId = visit(child);
+			lines.push(
+				child.label !== undefined
+					? `\t${id} -> ${childId} [label=${quoteDot(child.label)}];`
+					: `\t${id} -> ${childId};`,
+			);
+		}
+		return id;
+	};
+	visit(inspectAnimation(animation, settings));
+	lines.push("}");
+	return lines.join("\n") + "\n";
+}
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import {
+	ConstantAnimation,
+	Duration,
+	fromAnimationProperties,
+	SequenceAnimation,
+} from "./core.ts";
+import { easings } from "./easings.ts";
+import {
+	animationToDot,
+	animationToJson,
+	inspectAnimation,
+} from "./inspect.ts";
+import { tweenNumber } from "./std.ts";
+
+const frames = (frame: number) => new Duration(frame);
+
+const intro = tweenNumber({
+	from: 0,
+	to: 1,
+	duration: frames(30),
+	easing: easings.easeOut,
+}).named("intro", { layer: "title" });
+
+const animation = new SequenceAnimation<unknown>([
+	intro,
+	fromAnimationProperties({
+		x: intro.extend({ before: frames(10), after: Duration.zero }),
+		label: new ConstantAnimation("done", frames(20)),
+	}),
+	intro.reversed(),
+]).named("root");
+
+Deno.test("inspects nested animations with their timing", () => {
+	assert.deepEqual(inspectAnimation(animation), {
+		type: "Sequence",
+		name: "root",
+		duration: 100,
+		start: 0,
+		end: 100,
+		children: [
+			{
+				type: "Tween",
+				name: "intro",
+				duration: 30,
+				start: 0,
+				end: 30,
+				metadata: { layer: "title" },
+				details: { from: 0, to: 1, easing: "easeOut" },
+				children: [],
+			},
+			{
+				type: "Properties",
+				duration: 40,
+				start: 30,
+				end: 70,
+				children: [
+					{
+						type: "Extended",
+						label: "x",
+						duration: 40,
+						start: 30,
+						end: 70,
+						details: { before: 10, after: 0 },
+						children: [{
+							type: "Tween",
+							name: "intro",
+							duration: 30,
+							start: 40,
+							end: 70,
+							metadata: { layer: "title" },
+							details: { from: 0, to: 1, easing: "easeOut" },
+							children: [],
+						}],
+					},
+					{
+						type: "Constant",
+						label: "label",
+						duration: 20,
+						start: 30,
+						end: 50,
+						details: { value: "done" },
+						children: [],
+					},
+				],
+			},
+			{
+				type: "Remapped",
+				duration: 30,
+				start: 70,
+				end: 100,
+				children: [{
+					type: "Tween",
+					name: "intro",
+					duration: 30,
+					metadata: { layer: "title" },
+					details: { from: 0, to: 1, easing: "easeOut" },
+					children: [],
+				}],
+			},
+		],
+	});
+});
+
+Deno.test("limits the depth of inspected trees", () => {
+	const tree = inspectAnimation(animation, { maxDepth: 1 });
+	assert.equal(tree.children.length, 3);
+	assert.ok(tree.children.every((child) => !child.children.length));
+});
+
+Deno.test("exports animation trees as JSON", () => {
+	assert.deepEqual(
+		JSON.parse(animationToJson(animation)),
+		inspectAnimation(animation),
+	);
+	assert.equal(
+		animationToJson(intro, { indent: 0 }),
+		'{"type":"Tween","name":"intro","duration":30,"start":0,"end":30,' +
+			'"metadata":{"layer":"title"},' +
+			'"details":{"from":0,"to":1,"easing":"easeOut"},"children":[]}',
+	);
+});
+
+Deno.test("exports animation trees as Graphviz DOT", () => {
+	assert.equal(
+		animationToDot(animation, { maxDepth: 2 }),
+		[
+			"digraph animation {",
+			'\tnode [shape=box, fontname="monospace"];',
+			'\tn0 [label="root: Sequence\\n0 → 100 (100f)"];',
+			'\tn1 [label="intro: Tween\\n0 → 30 (30f)\\nfrom: 0\\nto: 1\\n' +
+			'easing: easeOut\\nlayer: title"];',
+			"\tn0 -> n1;",
+			'\tn2 [label="Properties\\n30 → 70 (40f)"];',
+			'\tn3 [label="Extended\\n30 → 70 (40f)\\nbefore: 10\\nafter: 0"];',
+			'\tn2 -> n3 [label="x"];',
+			'\tn4 [label="Constant\\n30 → 50 (20f)\\nvalue: done"];',
+			'\tn2 -> n4 [label="label"];',
+			"\tn0 -> n2;",
+			'\tn5 [label="Remapped\\n70 → 100 (30f)"];',
+			'\tn6 [label="intro: Tween\\n30f\\nfrom: 0\\nto: 1\\n' +
+			'easing: easeOut\\nlayer: title"];',
+			"\tn5 -> n6;",
+			"\tn0 -> n5;",
+			"}",
+			"",
+		].join("\n"),
+	);
+});
@@ -0,0 +1,65 @@
+import { Point } from "./std.ts";
+
+/** Creates an offscreen context of the given size, used as a layer. */
+export type LayerFactory = (size: Point) => CanvasRenderingContext2D;
+
+// Layers are reused between frames, and nested users each take their own.
+// Factories are held weakly, so inline ones are freed with their painters.
+const freeLayers = new WeakMap<LayerFactory, CanvasRenderingContext2D[]>();
+const acquiredLayers = new WeakSet<CanvasRenderingContext2D>();
+
+/**
+ * Takes a cleared layer with the same size and transform as `context`, from
+ * the layers previously created by `createLayer` or a new one. It should be
+ * given back with `releaseLayer` after use.
+ */
+export function acquireLayer(
+	createLayer: LayerFactory,
+	context: CanvasRenderingContext2D,
+): CanvasRenderingContext2D {
+	const size = { x: context.canvas.width, y: context.canvas.height };
+	const free = freeLayers.get(createLayer) ?? [];
+	freeLayers.set(createLayer, free);
+	const index = free.findIndex((layer) =>
+		layer.canvas.width === size.x && layer.canvas.height === size.y
+	);
+	const layer = index === -1 ? createLayer(size) : free.splice(index, 1)[0];
+	layer.save();
+	layer.setTransform(1, 0, 0, 1, 0, 0);
+	layer.clearRect(0, 0, size.x, size.y);
+	layer.setTransform(context.getTransform());
+	acquiredLayers.add(layer);
+	return layer;
+}
+
+/**
+ * Gives back a layer taken with `acquireLayer`, so it can be reused.
+ *
+ * @throws {RangeError} When the layer isn't currently acquired.
+ */
+export function releaseLayer(
+	createLayer: LayerFactory,
+	layer: CanvasRenderingContext2D,
+): void {
+	if (!acquiredLayers.delete(layer)) {
+		throw new RangeError("Released a layer which wasn't acquired");
+	}
+	layer.restore();
+	const free = freeLayers.get(createLayer) ?? [];
+	freeLayers.set(createLayer, free);
+	free.push(layer);
+}
+
+/**
+ * Draws a layer onto `context` pixel for pixel, ignoring the context's
+ * transform, but respecting its other state (like opacity).
+ */
+export function drawLayer(
+	context: CanvasRenderingContext2D,
+	layer: CanvasRenderingContext2D,
+): void {
+	context.save();
+	context.setTransform(1, 0, 0, 1, 0, 0);
+	context.drawImage(layer.canvas, 0, 0);
+	context.restore();
+}
@@ -0,0 +1,333 @@
+import { defineTween, Lerp, TweenCreator } from "./core.ts";
+import { lerpNumber, lerpPoint, Point, Rect } from "./std.ts";
+
+export type Insets = {
+	top: number;
+	right: number;
+	bottom: number;
+	left: number;
+};
+
+export type LayoutDirection = "horizontal" | "vertical";
+
+/**
+ * How children are placed on the cross axis (or inside their grid cell):
+ * - `start`, `center` and `end` keep the child's size
+ * - `stretch` makes the child fill the available space
+ */
+export type LayoutAlign = "start" | "center" | "end" | "stretch";
+
+/**
+ * How the free space on the main axis is distributed, like the CSS
+ * `justify-content` property.
+ */
+export type LayoutJustify =
+	| "start"
+	| "center"
+	| "end"
+	| "space-between"
+	| "space-around"
+	| "space-evenly";
+
+/** A child to lay out, with the size it would like to have. */
+export type LayoutItem = {
+	size: Point;
+	/**
+	 * How much of the free space on the main axis the child takes, relative
+	 * to the other children, like the CSS `flex-grow` property. Defaults to 0.
+	 */
+	grow?: number;
+};
+
+export type StackSettings = {
+	/** Defaults to `horizontal`. */
+	direction?: LayoutDirection;
+	gap?: number;
+	padding?: number | Insets;
+	/** Defaults to `start`. */
+	align?: LayoutAlign;
+};
+
+export type FlexSettings = StackSettings & {
+	/** Defaults to `start`. */
+	justify?: LayoutJustify;
+	/** When true, children which don't fit are moved to a new line. */
+	wrap?: boolean;
+};
+
+export type GridSettings = {
+	columns: number;
+	/** Defaults to as many rows as needed for all children. */
+	rows?: number;
+	/** The gap between columns and rows. */
+	gap?: number | Point;
+	padding?: number | Insets;
+	/** Defaults to `stretch`. */
+	align?: LayoutAlign;
+};
+
+function toInsets(padding: number | Insets = 0): Insets {
+	return typeof padding === "number"
+		? { top: padding, right: padding, bottom: padding, left: padding }
+		: padding;
+}
+
+/** Shrinks `rect` by `padding` on each side. */
+export function insetRect(rect: Rect, padding: number | Insets): Rect {
+	const { top, right, bottom, left } = toInsets(padding);
+	return {
+		position: { x: rect.position.x + left, y: rect.position.y + top },
+		size: {
+			x: Math.max(0, rect.size.x - left - right),
+			y: Math.max(0, rect.size.y - top - bottom),
+		},
+	};
+}
+
+/** Returns the offset and size of a child on an axis with `space` room. */
+function alignOnAxis(
+	align: LayoutAlign,
+	size: number,
+	space: number,
+): [number, number] {
+	switch (align) {
+		case "start":
+			return [0, size];
+		case "center":
+			return [(space - size) / 2, size];
+		case "end":
+			return [space - size, size];
+		case "stretch":
+			return [0, space];
+	}
+}
+
+/** Returns the offset of the first child and the extra space between them. */
+function justifyOnAxis(
+	justify: LayoutJustify,
+	free: number,
+	count: number,
+): [number, number] {
+	// Like CSS, negative free space is never distributed between children
+	if (free <= 0 && justify.startsWith("space-")) return [0, 0];
+	switch (justify) {
+		case "start":
+			return [0, 0];
+		case "center":
+			return [free / 2, 0];
+		case "end":
+			return [free, 0];
+		case "space-between":
+			return count > 1 ? [0, free / (count - 1)] : [0, 0];
+		case "space-around":
+			return [free / count / 2, free / count];
+		case "space-evenly":
+			return [free / (count + 1), free / (count + 1)];
+	}
+}
+
+// Reads and writes points along the main and cross axes of a direction
+const mainAxis = (direction: LayoutDirection) =>
+	direction === "horizontal" ? "x" : "y";
+const crossAxis = (direction: LayoutDirection) =>
+	direction === "horizontal" ? "y" : "x";
+
+function axisPoint(direction: LayoutDirection, main: number, cross: number) {
+	return direction === "horizontal"
+		? { x: main, y: cross }
+		: { x: cross, y: main };
+}
+
+/** Splits the items into lines, each of which fits on the main axis. */
+function wrapLines(
+	items: LayoutItem[],
+	main: "x" | "y",
+	space: number,
+	gap: number,
+): number[][] {
+	const lines: number[][] = [];
+	let line: number[] = [];
+	let used = 0;
+	items.forEach((item, i) => {
+		const size = item.size[main];
+		if (line.length && used + gap + size > space) {
+			lines.push(line);
+			line = [];
+			used = 0;
+		}
+		used += (line.length ? gap : 0) + size;
+		line.push(i);
+	});
+	if (line.length) lines.push(line);
+	return lines;
+}
+
+/**
+ * Lays out `items` in a row or column inside `container`, like a CSS flexbox.
+ * Returns a rect for each item, in the same order.
+ */
+export function flexLayout(
+	container: Rect,
+	items: LayoutItem[],
+	settings: FlexSettings = {},
+): Rect[] {
+	const {
+		direction = "horizontal",
+		gap = 0,
+		align = "start",
+		justify = "start",
+		wrap = false,
+	} = settings;
+	const inner = insetRect(container, settings.padding ?? 0);
+	const main = mainAxis(direction);
+	const cross = crossAxis(direction);
+	const lines = wrap
+		? wrapLines(items, main, inner.size[main], gap)
+		: [items.map((_, i) => i)];
+	const rects: Rect[] = new Array(items.length);
+
+	let lineOffset = 0;
+	for (const line of lines) {
+		// Without wrapping, the only line takes up the whole cross axis
+		const lineSize = wrap
+			? Math.max(...line.map((i) => items[i].size[cross]))
+			: inner.size[cross];
+		const used = line.reduce((sum, i) => sum + items[i].size[main], 0) +
+			gap * (line.length - 1);
+		const totalGrow = line.reduce((sum, i) => sum + (items[i].grow ?? 0), 0);
+		const free = inner.size[main] - used;
+		const [start, between] = totalGrow > 0 && free > 0
+			? [0, 0]
+			: justifyOnAxis(justify, free, line.length);
+
+		let offset = start;
+		for (const i of line) {
+			const item = items[i];
+			const grown = totalGrow > 0 && free > 0
+				? free * (item.grow ?? 0) / totalGrow
+				: 0;
+			const mainSize = item.size[main] + grown;
+			const [crossOffset, crossSize] = alignOnAxis(
+				align,
+				item.size[cross],
+				lineSize,
+			);
+			const position = axisPoint(direction, offset, lineOffset + crossOffset);
+			rects[i] = {
+				position: {
+					x: inner.position.x + position.x,
+					y: inner.position.y + position.y,
+				},
+				size: axisPoint(direction, mainSize, crossSize),
+			};
+			offset += mainSize + gap + between;
+		}
+		lineOffset += lineSize + gap;
+	}
+	return rects;
+}
+
+/**
+ * Lays out children of the given sizes one after another, in a row or a
+ * column inside `container`.
+ */
+export function stackLayout(
+	container: Rect,
+	sizes: Point[],
+	settings: StackSettings = {},
+): Rect[] {
+	return flexLayout(container, sizes.map((size) => ({ size })), settings);
+}
+
+/**
+ * Divides `container` into a grid of equally sized cells, filled row by row,
+ * and places a child of each given size in its cell. Children without a
+ * size are given the whole cell.
+ */
+export function gridLayout(
+	container: Rect,
+	sizes: (Point | undefined)[],
+	settings: GridSettings,
+): Rect[] {
+	const { columns, align = "stretch" } = settings;
+	if (!Number.isInteger(columns) || columns < 1) {
+		throw new RangeError(`Column count should be at least 1, got ${columns}`);
+	}
+	const rows = settings.rows ?? Math.max(1, Math.ceil(sizes.length / columns));
+	const gap = typeof settings.gap === "object"
+		? settings.gap
+		: { x: settings.gap ?? 0, y: settings.gap ?? 0 };
+	const inner = insetRect(container, settings.padding ?? 0);
+	const cell = {
+		x: (inner.size.x - gap.x * (columns - 1)) / columns,
+		y: (inner.size.y - gap.y * (rows - 1)) / rows,
+	};
+	return sizes.map((size, i) => {
+		const [x, width] = alignOnAxis(align, size?.x ?? cell.x, cell.x);
+		const [y, height] = alignOnAxis(align, size?.y ?? cell.y, cell.y);
+		return {
+			position: {
+				x: inner.position.x + (i % columns) * (cell.x + gap.x) + x,
+				y: inner.position.y + Math.floor(i / columns) * (cell.y + gap.y) + y,
+			},
+			size: { x: width, y: height },
+		};
+	});
+}
+
+/** A laid out child, with a key to follow it from one layout to another. */
+export type LayoutSlot = {
+	key: string;
+	rect: Rect;
+	/**
+	 * How present the child is in the layout, from 0 to 1. This is below 1
+	 * while the child is entering or leaving, and can be used for its opacity
+	 * or scale.
+	 */
+	presence: number;
+};
+
+/** Pairs the rects returned by a layout with the keys of their children. */
+export function keyLayout(keys: string[], rects: Rect[]): LayoutSlot[] {
+	return keys.map((key, i) => ({ key, rect: rects[i], presence: 1 }));
+}
+
+const lerpRect: Lerp<Rect> = (a, b, t) => ({
+	position: lerpPoint(a.position, b.position, t),
+	size: lerpPoint(a.size, b.size, t),
+});
+
+/**
+ * Interpolates two layouts by key. Children in both layouts move from their
+ * rect in `a` to their rect in `b`, children only in `b` enter in place, and
+ * children only in `a` leave in place. Children whose presence reaches 0 are
+ * left out of the result.
+ */
+export const lerpLayout: Lerp<LayoutSlot[]> = (a, b, t) => {
+	const fromSlots = new Map(a.map((slot) => [slot.key, slot]));
+	const toKeys = new Set(b.map((slot) => slot.key));
+	const result: LayoutSlot[] = [];
+	for (const to of b) {
+		const from = fromSlots.get(to.key);
+		result.push({
+			key: to.key,
+			rect: from ? lerpRect(from.rect, to.rect, t) : to.rect,
+			presence: lerpNumber(from?.presence ?? 0, to.presence, t),
+		});
+	}
+	for (const from of a) {
+		if (toKeys.has(from.key)) continue;
+		result.push({
+			key: from.key,
+			rect: from.rect,
+			presence: lerpNumber(from.presence, 0, t),
+		});
+	}
+	return result.filter((slot) => slot.presence > 0);
+};
+
+/**
+ * Creates a tween between two keyed layouts, for animating children into
+ * place when others are added or removed.
+ */
+export const tweenLayout: TweenCreator<LayoutSlot[]> = defineTween(lerpLayout);
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import {
+	flexLayout,
+	FlexSettings,
+	gridLayout,
+	insetRect,
+	keyLayout,
+	lerpLayout,
+	stackLayout,
+	tweenLayout,
+} from "./layout.ts";
+import { Rect } from "./std.ts";
+
+const container: Rect = { position: { x: 10, y: 20 }, size: { x: 100, y: 50 } };
+
+const rect = (x: number, y: number, width: number, height: number): Rect => ({
+	position: { x, y },
+	size: { x: width, y: height },
+});
+
+Deno.test("insets rects by padding, without negative sizes", () => {
+	assert.deepEqual(insetRect(container, 5), rect(15, 25, 90, 40));
+	assert.deepEqual(
+		insetRect(container, { top: 1, right: 2, bottom: 3, left: 4 }),
+		rect(14, 21, 94, 46),
+	);
+	assert.deepEqual(insetRect(container, 60).size, { x: 0, y: 0 });
+});
+
+Deno.test("stacks children with gaps, padding and alignment", () => {
+	const sizes = [{ x: 20, y: 10 }, { x: 30, y: 20 }];
+	assert.deepEqual(
+		stackLayout(container, sizes, { gap: 5, padding: 5, align: "center" }),
+		[rect(15, 40, 20, 10), rect(40, 35, 30, 20)],
+	);
+	assert.deepEqual(
+		stackLayout(container, sizes, { direction: "vertical", align: "stretch" }),
+		[rect(10, 20, 100, 10), rect(10, 30, 100, 20)],
+	);
+	assert.deepEqual(
+		stackLayout(container, sizes, { align: "end" })[0],
+		rect(
+			10,
+			60,
+			20,
+			10,
+		),
+	);
+});
+
+Deno.test("justifies children like CSS flexbox", () => {
+	const items = [{ size: { x: 20, y: 10 } }, { size: { x: 20, y: 10 } }];
+	const xs = (settings: FlexSettings) =>
+		flexLayout(container, items, settings).map((rect) => rect.position.x);
+	assert.deepEqual(xs({ justify: "center" }), [40, 60]);
+	assert.deepEqual(xs({ justify: "end" }), [70, 90]);
+	assert.deepEqual(xs({ justify: "space-between" }), [10, 90]);
+	assert.deepEqual(xs({ justify: "space-around" }), [25, 75]);
+	assert.deepEqual(xs({ justify: "space-evenly" }), [30, 70]);
+	// Children which overflow are never spread out
+	const wide = [{ size: { x: 80, y: 10 } }, { size: { x: 80, y: 10 } }];
+	assert.deepEqual(
+		flexLayout(container, wide, { justify: "space-between" })
+			.map((rect) => rect.position.x),
+		[10, 90],
+	);
+});
+
+Deno.test("grows children into the free space", () => {
+	const rects = flexLayout(container, [
+		{ size: { x: 10, y: 10 }, grow: 1 },
+		{ size: { x: 20, y: 10 } },
+		{ size: { x: 10, y: 10 }, grow: 3 },
+	], { justify: "end" });
+	assert.deepEqual(rects.map((rect) => rect.size.x), [25, 20, 55]);
+	assert.deepEqual(rects.map((rect) => rect.position.x), [10, 35, 55]);
+});
+
+Deno.test("wraps children onto new lines", () => {
+	const items = [40, 40, 40].map((x) => ({ size: { x, y: 10 + x / 4 } }));
+	assert.deepEqual(flexLayout(container, items, { wrap: true, gap: 10 }), [
+		rect(10, 20, 40, 20),
+		rect(60, 20, 40, 20),
+		rect(10, 50, 40, 20),
+	]);
+});
+
+Deno.test("divides grids into equal cells", () => {
+	const rects = gridLayout(
+		container,
+		[undefined, undefined, { x: 10, y: 10 }],
+		{
+			columns: 2,
+			gap: { x: 10, y: 4 },
+			align: "center",
+		},
+	);
+	assert.deepEqual(rects, [
+		rect(10, 20, 45, 23),
+		rect(65, 20, 45, 23),
+		rect(27.5, 53.5, 10, 10),
+	]);
+	assert.equal(gridLayout(container, [], { columns: 3, rows: 2 }).length, 0);
+	assert.throws(() => gridLayout(container, [], { columns: 0 }), RangeError);
+});
+
+Deno.test("interpolates layouts by key, entering and leaving in place", () => {
+	const before = keyLayout(["a", "b"], [
+		rect(0, 0, 10, 10),
+		rect(20, 0, 10, 10),
+	]);
+	const after = keyLayout(["b", "c"], [
+		rect(0, 0, 20, 10),
+		rect(30, 0, 10, 10),
+	]);
+	assert.deepEqual(lerpLayout(before, after, 0.25), [
+		{ key: "b", rect: rect(15, 0, 12.5, 10), presence: 1 },
+		{ key: "c", rect: rect(30, 0, 10, 10), presence: 0.25 },
+		{ key: "a", rect: rect(0, 0, 10, 10), presence: 0.75 },
+	]);
+	const tween = tweenLayout({
+		from: before,
+		to: after,
+		duration: new Duration(4),
+	});
+	assert.deepEqual(tween.at(new Duration(0)).map((slot) => slot.key), [
+		"b",
+		"a",
+	]);
+	assert.deepEqual(tween.at(new Duration(4)), after);
+});
@@ -2,3 +2,22 @@ export * from "./core.ts";
 export * from "./std.ts";
 export * from "./easings.ts";
 export * from "./colors.ts";
+export * from "./player.ts";
+export * from "./render.ts";
+export * from "./spring.ts";
+export * from "./path.ts";
+export * from "./timeline.ts";
+export * from "./motionblur.ts";
+export * from "./gradients.ts";
+export * from "./images.ts";
+export * from "./group.ts";
+export * from "./layers.ts";
+export * from "./clipping.ts";
+export * from "./layout.ts";
+export * from "./recording.ts";
+export * from "./svg.ts";
+export * from "./lottie.ts";
+export * from "./audio.ts";
+export * from "./captions.ts";
+export * from "./scene.ts";
+export * from "./inspect.ts";
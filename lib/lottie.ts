@@ -0,0 +1,737 @@
+import {
+	Animation,
+	animationFromKeyframes,
+	ArrayAnimation,
+	ConstantAnimation,
+	Duration,
+	FrameRate,
+	fromAnimationProperties,
+	Keyframe,
+	Lerp,
+	Painter,
+} from "./core.ts";
+import { rgbaToString } from "./colors.ts";
+import { cubicBezier, easings } from "./easings.ts";
+import { createGroupPainter } from "./group.ts";
+import {
+	createPathPainter,
+	lerpPath,
+	Path,
+	PathSegment,
+	polygonPath,
+	trimPath,
+} from "./path.ts";
+import {
+	createClippingPainter,
+	createRectPainter,
+	createTransformingPainter,
+	lerpNumber,
+	noopPainter,
+	Point,
+} from "./std.ts";
+
+/*
+ * Lottie (Bodymovin) JSON types, for the subset supported by `importLottie`:
+ * - shape (4), precomp (0), solid (1) and null (3) layers, with parenting
+ * - layer and group transforms: anchor, position, scale, rotation, opacity
+ * - paths, rectangles and ellipses, with solid fills and strokes
+ * - trim paths, applied to all shapes of their group together
+ * - keyframes with bezier easing and hold keyframes
+ *
+ * Anything else (masks, mattes, effects, text, images, gradients, skew,
+ * separated position dimensions, expressions) is ignored.
+ */
+
+/** A bezier easing handle, where each coordinate may be given per dimension. */
+export type LottieEasingHandle = { x: number | number[]; y: number | number[] };
+
+export type LottieKeyframe<T> = {
+	/** Time in frames. */
+	t: number;
+	/** Start value. */
+	s?: T;
+	/** End value, only used by older versions instead of the next `s`. */
+	e?: T;
+	/** In-tangent of the next keyframe's easing. */
+	i?: LottieEasingHandle;
+	/** Out-tangent of this keyframe's easing. */
+	o?: LottieEasingHandle;
+	/** 1 for a hold keyframe. */
+	h?: 0 | 1;
+};
+
+/** An animatable property, which is static when `a` is 0. */
+export type LottieProperty<T> =
+	| { a: 0; k: T }
+	| { a: 1; k: LottieKeyframe<T>[] };
+
+type NumberValue = number | number[];
+
+export type LottieTransform = {
+	/** Anchor point. */
+	a?: LottieProperty<NumberValue>;
+	/** Position. */
+	p?: LottieProperty<NumberValue>;
+	/** Scale, in percent. */
+	s?: LottieProperty<NumberValue>;
+	/** Rotation, in degrees. */
+	r?: LottieProperty<NumberValue>;
+	/** Opacity, in percent. */
+	o?: LottieProperty<NumberValue>;
+};
+
+/** Vertices with in and out tangents, relative to their vertex. */
+export type LottieBezier = {
+	i: [number, number][];
+	o: [number, number][];
+	v: [number, number][];
+	c: boolean;
+};
+
+export type LottieShape =
+	| { ty: "gr"; it: LottieShape[]; hd?: boolean }
+	| ({ ty: "tr"; hd?: boolean } & LottieTransform)
+	| {
+		ty: "sh";
+		ks: LottieProperty<LottieBezier | LottieBezier[]>;
+		hd?: boolean;
+	}
+	| {
+		ty: "rc";
+		p: LottieProperty<NumberValue>;
+		s: LottieProperty<NumberValue>;
+		r: LottieProperty<NumberValue>;
+		hd?: boolean;
+	}
+	| {
+		ty: "el";
+		p: LottieProperty<NumberValue>;
+		s: LottieProperty<NumberValue>;
+		hd?: boolean;
+	}
+	| {
+		ty: "fl";
+		c: LottieProperty<NumberValue>;
+		o: LottieProperty<NumberValue>;
+		hd?: boolean;
+	}
+	| {
+		ty: "st";
+		c: LottieProperty<NumberValue>;
+		o: LottieProperty<NumberValue>;
+		w: LottieProperty<NumberValue>;
+		/** Line cap: 1 butt, 2 round, 3 square. */
+		lc?: number;
+		/** Line join: 1 miter, 2 round, 3 bevel. */
+		lj?: number;
+		hd?: boolean;
+	}
+	| {
+		ty: "tm";
+		/** Start, in percent. */
+		s: LottieProperty<NumberValue>;
+		/** End, in percent. */
+		e: LottieProperty<NumberValue>;
+		/** Offset, in degrees. */
+		o: LottieProperty<NumberValue>;
+		hd?: boolean;
+	}
+	| { ty: string; hd?: boolean };
+
+export type LottieLayer = {
+	ty: number;
+	ind?: number;
+	parent?: number;
+	/** In and out points, in frames of the containing composition. */
+	ip: number;
+	op: number;
+	/** Start time of the layer, in frames of the containing composition. */
+	st?: number;
+	/** Time stretch. */
+	sr?: number;
+	ks: LottieTransform;
+	hd?: boolean;
+	/** Shapes of a shape layer. */
+	shapes?: LottieShape[];
+	/** Asset id of a precomp layer. */
+	refId?: string;
+	/** Size of a precomp layer, which clips its contents. */
+	w?: number;
+	h?: number;
+	/** Color and size of a solid layer. */
+	sc?: string;
+	sw?: number;
+	sh?: number;
+};
+
+export type LottieAsset = { id: string; layers?: LottieLayer[] };
+
+export type LottieAnimation = {
+	fr: number;
+	ip: number;
+	op: number;
+	w: number;
+	h: number;
+	layers: LottieLayer[];
+	assets?: LottieAsset[];
+};
+
+export type LottieImportSettings = {
+	/**
+	 * When given, the animation is retimed from the frame rate of the Lottie
+	 * file to this one.
+	 */
+	frameRate?: FrameRate;
+};
+
+export type LottieImport = {
+	/**
+	 * The imported animation, from the in point to the last frame before the
+	 * out point of the Lottie file.
+	 */
+	animation: Animation<Painter>;
+	size: Point;
+	frameRate: FrameRate;
+};
+
+/** Maps a time in frames of a layer or composition to frames of the root. */
+type TimeMap = (frame: number) => number;
+
+type Transform = {
+	anchor: number[];
+	position: number[];
+	scale: number[];
+	rotation: number[];
+	opacity: number[];
+};
+
+const lerpNumbers: Lerp<number[]> = (a, b, t) =>
+	a.map((value, i) => lerpNumber(value, b[i] ?? value, t));
+
+const toNumbers = (value: NumberValue): number[] =>
+	Array.isArray(value) ? value : [value];
+
+const handleValue = (value: number | number[]): number =>
+	Array.isArray(value) ? value[0] : value;
+
+// Exporters sometimes write handles slightly outside of [0, 1] in time, which
+// players clamp instead of rejecting
+const handleTime = (value: number | number[]): number =>
+	Math.min(1, Math.max(0, handleValue(value)));
+
+/**
+ * Converts a Lottie property to an `Animation` in root frames, using
+ * `animationFromKeyframes` with the easing of each keyframe.
+ */
+function importProperty<R, T>(
+	property: LottieProperty<R> | undefined,
+	fallback: T,
+	convert: (raw: R) => T,
+	lerp: Lerp<T>,
+	toRoot: TimeMap,
+): Animation<T> {
+	if (!property) return new ConstantAnimation(fallback);
+	if (!property.a) return new ConstantAnimation(convert(property.k as R));
+	const frames = property.k as LottieKeyframe<R>[];
+	let previousEnd: R | undefined;
+	const keyframes: Keyframe<T>[] = frames.map((frame) => {
+		const raw = frame.s ?? previousEnd;
+		previousEnd = frame.e ?? raw;
+		return {
+			time: new Duration(toRoot(frame.t)),
+			value: raw === undefined ? fallback : convert(raw),
+			easing: frame.o && frame.i
+				? cubicBezier(
+					handleTime(frame.o.x),
+					handleValue(frame.o.y),
+					handleTime(frame.i.x),
+					handleValue(frame.i.y),
+				)
+				: undefined,
+			hold: frame.h === 1,
+		};
+	});
+	if (!keyframes.length) return new ConstantAnimation(fallback);
+
+	// Keyframe sequences start at zero, so hold the first value until the first
+	// keyframe, or cut off everything before zero
+	const first = keyframes[0].time;
+	if (first.isGreaterThan(Duration.zero)) {
+		keyframes.unshift({
+			time: Duration.zero,
+			value: keyframes[0].value,
+			hold: true,
+		});
+	} else if (first.isLessThan(Duration.zero)) {
+		const animation = animationFromKeyframes(
+			keyframes.map((keyframe) => ({
+				...keyframe,
+				time: keyframe.time.subtract(first),
+			})),
+			lerp,
+			easings.linear,
+		);
+		return animation.slice(
+			Duration.zero.subtract(first),
+			Duration.max(animation.duration, Duration.zero.subtract(first)),
+		);
+	}
+	return animationFromKeyframes(keyframes, lerp, easings.linear);
+}
+
+function importNumbers(
+	property: LottieProperty<NumberValue> | undefined,
+	fallback: number[],
+	toRoot: TimeMap,
+): Animation<number[]> {
+	return importProperty(property, fallback, toNumbers, lerpNumbers, toRoot);
+}
+
+function importTransform(
+	transform: LottieTransform,
+	toRoot: TimeMap,
+): Animation<Transform> {
+	return fromAnimationProperties<Transform>({
+		anchor: importNumbers(transform.a, [0, 0], toRoot),
+		position: importNumbers(transform.p, [0, 0], toRoot),
+		scale: importNumbers(transform.s, [100, 100], toRoot),
+		rotation: importNumbers(transform.r, [0], toRoot),
+		opacity: importNumbers(transform.o, [100], toRoot),
+	});
+}
+
+/**
+ * Paints `painter` with a Lottie transform, which moves the anchor to the
+ * position, after scaling and rotating around it.
+ */
+function createLottieTransformPainter(
+	transform: Transform,
+	painter: Painter,
+	withOpacity = true,
+): Painter {
+	const { anchor, position, scale, rotation, opacity } = transform;
+	const transformed = createTransformingPainter(
+		{
+			translate: { x: position[0], y: position[1] },
+			rotateDegrees: rotation[0],
+		},
+		createTransformingPainter(
+			{ scale: { x: scale[0] / 100, y: scale[1] / 100 } },
+			createTransformingPainter(
+				{ translate: { x: -anchor[0], y: -anchor[1] } },
+				painter,
+			),
+		),
+	);
+	return withOpacity && opacity[0] < 100
+		? createGroupPainter({ opacity: opacity[0] / 100 }, [transformed])
+		: transformed;
+}
+
+const bezierToPath = (raw: LottieBezier | LottieBezier[]): Path => {
+	const bezier = Array.isArray(raw) ? raw[0] : raw;
+	if (!bezier?.v.length) return [];
+	const point = ([x, y]: [number, number]) => ({ x, y });
+	const segments: PathSegment[] = [];
+	const count = bezier.c ? bezier.v.length : bezier.v.length - 1;
+	for (let k = 0; k < count; k++) {
+		const next = (k + 1) % bezier.v.length;
+		const from = point(bezier.v[k]);
+		const to = point(bezier.v[next]);
+		segments.push({
+			control1: { x: from.x + bezier.o[k][0], y: from.y + bezier.o[k][1] },
+			control2: { x: to.x + bezier.i[next][0], y: to.y + bezier.i[next][1] },
+			to,
+		});
+	}
+	return [{ start: point(bezier.v[0]), segments, closed: bezier.c }];
+};
+
+// Length of the bezier handles approximating a quarter circle
+const kappa = 0.5522847498;
+
+function ellipsePath(center: number[], size: number[]): Path {
+	const [x, y] = center;
+	const rx = size[0] / 2;
+	const ry = size[1] / 2;
+	const quarter = (
+		from: Point,
+		fromHandle: Point,
+		to: Point,
+		toHandle: Point,
+	): PathSegment => ({
+		control1: { x: from.x + fromHandle.x, y: from.y + fromHandle.y },
+		control2: { x: to.x + toHandle.x, y: to.y + toHandle.y },
+		to,
+	});
+	const top = { x, y: y - ry };
+	const right = { x: x + rx, y };
+	const bottom = { x, y: y + ry };
+	const left = { x: x - rx, y };
+	const kx = rx * kappa;
+	const ky = ry * kappa;
+	return [{
+		start: top,
+		segments: [
+			quarter(top, { x: kx, y: 0 }, right, { x: 0, y: -ky }),
+			quarter(right, { x: 0, y: ky }, bottom, { x: kx, y: 0 }),
+			quarter(bottom, { x: -kx, y: 0 }, left, { x: 0, y: ky }),
+			quarter(left, { x: 0, y: -ky }, top, { x: -kx, y: 0 }),
+		],
+		closed: true,
+	}];
+}
+
+function rectPath(center: number[], size: number[], roundness: number): Path {
+	const left = center[0] - size[0] / 2;
+	const top = center[1] - size[1] / 2;
+	const right = left + size[0];
+	const bottom = top + size[1];
+	const r = Math.min(roundness, size[0] / 2, size[1] / 2);
+	if (r <= 0) {
+		return polygonPath([
+			{ x: right, y: top },
+			{ x: right, y: bottom },
+			{ x: left, y: bottom },
+			{ x: left, y: top },
+		]);
+	}
+	const k = r * (1 - kappa);
+	const corner = (
+		to: Point,
+		control1: Point,
+		control2: Point,
+	): PathSegment => ({ control1, control2, to });
+	const line = (from: Point, to: Point): PathSegment => ({
+		control1: from,
+		control2: to,
+		to,
+	});
+	return [{
+		start: { x: right - r, y: top },
+		segments: [
+			corner(
+				{ x: right, y: top + r },
+				{ x: right - k, y: top },
+				{ x: right, y: top + k },
+			),
+			line({ x: right, y: top + r }, { x: right, y: bottom - r }),
+			corner(
+				{ x: right - r, y: bottom },
+				{ x: right, y: bottom - k },
+				{ x: right - k, y: bottom },
+			),
+			line({ x: right - r, y: bottom }, { x: left + r, y: bottom }),
+			corner(
+				{ x: left, y: bottom - r },
+				{ x: left + k, y: bottom },
+				{ x: left, y: bottom - k },
+			),
+			line({ x: left, y: bottom - r }, { x: left, y: top + r }),
+			corner(
+				{ x: left + r, y: top },
+				{ x: left, y: top + k },
+				{ x: left + k, y: top },
+			),
+			line({ x: left + r, y: top }, { x: right - r, y: top }),
+		],
+		closed: true,
+	}];
+}
+
+/** Trims the path like a Lottie trim, where the offset wraps around. */
+function trimPathWithOffset(
+	path: Path,
+	start: number,
+	end: number,
+	offset: number,
+): Path {
+	if (end < start) [start, end] = [end, start];
+	if (end - start >= 1) return path;
+	const shift = offset - Math.floor(offset);
+	const from = start + shift;
+	const to = end + shift;
+	if (to <= 1) return trimPath(path, from, to);
+	if (from >= 1) return trimPath(path, from - 1, to - 1);
+	return [...trimPath(path, from, 1), ...trimPath(path, 0, to - 1)];
+}
+
+const colorString = (color: number[], opacity: number): string =>
+	rgbaToString({
+		r: Math.round(color[0] * 255),
+		g: Math.round(color[1] * 255),
+		b: Math.round(color[2] * 255),
+		a: (color[3] ?? 1) * opacity / 100,
+	});
+
+const lineCaps: CanvasLineCap[] = ["butt", "round", "square"];
+const lineJoins: CanvasLineJoin[] = ["miter", "round", "bevel"];
+
+type Styles = ((path: Path) => Painter)[];
+
+/**
+ * Imports the items of a shape group. Fills and strokes apply to the paths
+ * of their own group, and to nested groups which don't have any styles.
+ */
+function importShapes(
+	items: LottieShape[],
+	inherited: Animation<Styles>,
+	toRoot: TimeMap,
+): Animation<Painter> {
+	const visible = items.filter((item) => !item.hd);
+	const paths: Animation<Path>[] = [];
+	const styles: Animation<(path: Path) => Painter>[] = [];
+	const groups: LottieShape[][] = [];
+	let trim: Animation<number[]> | undefined;
+	let transform: Animation<Transform> | undefined;
+
+	for (const item of visible) {
+		switch (item.ty) {
+			case "sh": {
+				const { ks } = item as Extract<LottieShape, { ty: "sh" }>;
+				paths.push(importProperty(ks, [], bezierToPath, lerpPath, toRoot));
+				break;
+			}
+			case "el": {
+				const { p, s } = item as Extract<LottieShape, { ty: "el" }>;
+				paths.push(
+					new ArrayAnimation([
+						importNumbers(p, [0, 0], toRoot),
+						importNumbers(s, [0, 0], toRoot),
+					]).derive(([center, size]) => ellipsePath(center, size)),
+				);
+				break;
+			}
+			case "rc": {
+				const { p, s, r } = item as Extract<LottieShape, { ty: "rc" }>;
+				paths.push(
+					new ArrayAnimation([
+						importNumbers(p, [0, 0], toRoot),
+						importNumbers(s, [0, 0], toRoot),
+						importNumbers(r, [0], toRoot),
+					]).derive(([center, size, [roundness]]) =>
+						rectPath(center, size, roundness)
+					),
+				);
+				break;
+			}
+			case "fl": {
+				const { c, o } = item as Extract<LottieShape, { ty: "fl" }>;
+				styles.push(
+					new ArrayAnimation([
+						importNumbers(c, [0, 0, 0], toRoot),
+						importNumbers(o, [100], toRoot),
+					]).derive(([color, [opacity]]) => (path: Path) =>
+						createPathPainter({ path, fillStyle: colorString(color, opacity) })
+					),
+				);
+				break;
+			}
+			case "st": {
+				const stroke = item as Extract<LottieShape, { ty: "st" }>;
+				const lineCap = lineCaps[(stroke.lc ?? 2) - 1];
+				const lineJoin = lineJoins[(stroke.lj ?? 2) - 1];
+				styles.push(
+					new ArrayAnimation([
+						importNumbers(stroke.c, [0, 0, 0], toRoot),
+						importNumbers(stroke.o, [100], toRoot),
+						importNumbers(stroke.w, [1], toRoot),
+					]).derive(([color, [opacity], [width]]) => (path: Path) =>
+						createPathPainter({
+							path,
+							strokeStyle: colorString(color, opacity),
+							strokeWidth: width,
+							lineCap,
+							lineJoin,
+						})
+					),
+				);
+				break;
+			}
+			case "tm": {
+				const { s, e, o } = item as Extract<LottieShape, { ty: "tm" }>;
+				trim = new ArrayAnimation([
+					importNumbers(s, [0], toRoot),
+					importNumbers(e, [100], toRoot),
+					importNumbers(o, [0], toRoot),
+				]).derive(([[start], [end], [offset]]) => [start, end, offset]);
+				break;
+			}
+			case "gr":
+				groups.push((item as Extract<LottieShape, { ty: "gr" }>).it);
+				break;
+			case "tr":
+				transform = importTransform(item as LottieTransform, toRoot);
+				break;
+		}
+	}
+
+	// Items are listed from top to bottom, so styles are painted in reverse
+	const ownStyles: Animation<Styles> = styles.length
+		? new ArrayAnimation(styles.reverse())
+		: inherited;
+	const children = groups.reverse().map((group) =>
+		importShapes(group, ownStyles, toRoot)
+	);
+	const noTrim = new ConstantAnimation([0, 100, 0]);
+	const content = fromAnimationProperties({
+		path: new ArrayAnimation(paths.reverse()).derive((list) => list.flat()),
+		styles: ownStyles,
+		trim: trim ?? noTrim,
+		children: new ArrayAnimation(children),
+	}).derive(({ path, styles, trim: [start, end, offset], children }) => {
+		const trimmed = trim
+			? trimPathWithOffset(path, start / 100, end / 100, offset / 360)
+			: path;
+		const painters = trimmed.length
+			? styles.map((style) => style(trimmed))
+			: [];
+		return createGroupPainter({}, [...children, ...painters]);
+	});
+	if (!transform) return content;
+	return fromAnimationProperties({ transform, painter: content })
+		.derive(({ transform, painter }) =>
+			createLottieTransformPainter(transform, painter)
+		);
+}
+
+/**
+ * Imports the layers of a composition, whose frames are mapped to root frames
+ * by `toRoot`.
+ */
+function importLayers(
+	layers: LottieLayer[],
+	toRoot: TimeMap,
+	assets: Map<string, LottieAsset>,
+): Animation<Painter> {
+	const byIndex = new Map(
+		layers.filter((layer) => layer.ind !== undefined)
+			.map((layer) => [layer.ind!, layer]),
+	);
+	const layerTime = (layer: LottieLayer): TimeMap => (frame) =>
+		toRoot((layer.st ?? 0) + frame * (layer.sr ?? 1));
+
+	const importContent = (
+		layer: LottieLayer,
+	): Animation<Painter> | undefined => {
+		const toLayerRoot = layerTime(layer);
+		switch (layer.ty) {
+			case 4:
+				return importShapes(
+					layer.shapes ?? [],
+					new ConstantAnimation([]),
+					toLayerRoot,
+				);
+			case 1:
+				return new ConstantAnimation(createRectPainter({
+					position: { x: 0, y: 0 },
+					size: { x: layer.sw ?? 0, y: layer.sh ?? 0 },
+					fillStyle: layer.sc,
+				}));
+			case 0: {
+				const asset = assets.get(layer.refId ?? "");
+				if (!asset?.layers) {
+					throw new Error(`Unknown Lottie precomp asset "${layer.refId}"`);
+				}
+				const content = importLayers(asset.layers, toLayerRoot, assets);
+				if (layer.w === undefined || layer.h === undefined) return content;
+				const bounds = {
+					position: { x: 0, y: 0 },
+					size: { x: layer.w, y: layer.h },
+				};
+				return content.derive((painter) =>
+					createClippingPainter(bounds, painter)
+				);
+			}
+		}
+		return undefined;
+	};
+
+	// Parents only lend their transform, not their opacity
+	const withParents = (
+		layer: LottieLayer,
+		animation: Animation<Painter>,
+	): Animation<Painter> => {
+		const parent = layer.parent === undefined
+			? undefined
+			: byIndex.get(layer.parent);
+		if (!parent) return animation;
+		const transformed = fromAnimationProperties({
+			transform: importTransform(parent.ks, layerTime(parent)),
+			painter: animation,
+		}).derive(({ transform, painter }) =>
+			createLottieTransformPainter(transform, painter, false)
+		);
+		return withParents(parent, transformed);
+	};
+
+	const imported = layers.flatMap((layer) => {
+		if (layer.hd) return [];
+		const content = importContent(layer);
+		if (!content) return [];
+		const transformed = fromAnimationProperties({
+			transform: importTransform(layer.ks, layerTime(layer)),
+			painter: content,
+		}).derive(({ transform, painter }) =>
+			createLottieTransformPainter(transform, painter)
+		);
+		// The layer is only visible from its in point until its out point
+		const inPoint = toRoot(layer.ip);
+		const outPoint = toRoot(layer.op);
+		const visibility = animationFromKeyframes(
+			[
+				{ time: Duration.zero, value: inPoint <= 0, hold: true },
+				{ time: new Duration(Math.max(0, inPoint)), value: true, hold: true },
+				{ time: new Duration(Math.max(0, outPoint)), value: false },
+			],
+			(a) => a,
+			easings.linear,
+		);
+		return [
+			fromAnimationProperties({
+				visible: visibility,
+				painter: withParents(layer, transformed),
+			}).derive(({ visible, painter }) => visible ? painter : noopPainter),
+		];
+	});
+
+	// Layers are listed from top to bottom, so they're painted in reverse
+	return new ArrayAnimation(imported.reverse()).derive((painters) =>
+		createGroupPainter({}, painters)
+	);
+}
+
+/**
+ * Imports a Lottie (Bodymovin) animation as an `Animation<Painter>`, built
+ * from keyframe animations and painters of this library, so it can be
+ * seeked and composed like any other animation. Only a subset of Lottie is
+ * supported, see the `LottieAnimation` types for details.
+ *
+ * @throws {SyntaxError} When `data` is a string which isn't valid JSON.
+ */
+export function importLottie(
+	data: LottieAnimation | string,
+	settings: LottieImportSettings = {},
+): LottieImport {
+	const lottie: LottieAnimation = typeof data === "string"
+		? JSON.parse(data)
+		: data;
+	const duration = new Duration(Math.max(0, lottie.op - lottie.ip - 1));
+	const assets = new Map(
+		(lottie.assets ?? []).map((asset) => [asset.id, asset]),
+	);
+	// Root frames start at the in point of the animation
+	const animation = importLayers(
+		lottie.layers,
+		(frame) => frame - lottie.ip,
+		assets,
+	).slice(Duration.zero, duration);
+	const frameRate = new FrameRate(lottie.fr);
+	return {
+		animation: settings.frameRate
+			? animation.retime(frameRate, settings.frameRate)
+			: animation,
+		size: { x: lottie.w, y: lottie.h },
+		frameRate: settings.frameRate ?? frameRate,
+	};
+}
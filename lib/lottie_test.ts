@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import {
+	importLottie,
+	LottieAnimation,
+	LottieBezier,
+	LottieLayer,
+} from "./lottie.ts";
+import { recordFrame, snapshotCommands } from "./recording.ts";
+
+/** A solid layer which fades in, with easing handles outside of [0, 1]. */
+const fadingSolid: LottieAnimation = {
+	fr: 30,
+	ip: 0,
+	op: 11,
+	w: 20,
+	h: 10,
+	layers: [{
+		ty: 1,
+		ip: 0,
+		op: 11,
+		sc: "#ff0000",
+		sw: 20,
+		sh: 10,
+		ks: {
+			o: {
+				a: 1,
+				k: [
+					{
+						t: 0,
+						s: [0],
+						o: { x: [-0.2], y: [0] },
+						i: { x: [1.3], y: [1] },
+					},
+					{ t: 10, s: [100] },
+				],
+			},
+		},
+	}],
+};
+
+Deno.test("clamps easing handles outside of [0, 1]", () => {
+	const { animation } = importLottie(fadingSolid);
+	assert.equal(animation.duration.frame, 10);
+	const opacityAt = (frame: number) =>
+		snapshotCommands(recordFrame(animation, new Duration(frame)))
+			.find((line) => line.includes("globalAlpha"));
+	// The same as the clamped `cubic-bezier(0, 0, 1, 1)`, which is linear
+	assert.equal(opacityAt(5)?.trim(), "globalAlpha = 0.5");
+	// Fully opaque layers are painted without changing the opacity
+	assert.equal(opacityAt(10), undefined);
+});
+
+const still = <T>(k: T) => ({ a: 0 as const, k });
+
+/** A horizontal line from (0, 0) to (10, 0). */
+const line = still<LottieBezier>({
+	i: [[0, 0], [0, 0]],
+	o: [[0, 0], [0, 0]],
+	v: [[0, 0], [10, 0]],
+	c: false,
+});
+
+const composition = (
+	layers: LottieLayer[],
+	settings: Partial<LottieAnimation> = {},
+): LottieAnimation => ({
+	fr: 30,
+	ip: 0,
+	op: 30,
+	w: 40,
+	h: 40,
+	layers,
+	...settings,
+});
+
+const solid = (settings: Partial<LottieLayer>): LottieLayer => ({
+	ty: 1,
+	ip: 0,
+	op: 30,
+	sc: "#ff0000",
+	sw: 10,
+	sh: 10,
+	ks: {},
+	...settings,
+});
+
+/** The painted commands matching `pattern`, without indentation. */
+const painted = (lottie: LottieAnimation, frame: number, pattern: RegExp) =>
+	snapshotCommands(
+		recordFrame(importLottie(lottie).animation, new Duration(frame)),
+	)
+		.map((line) => line.trim())
+		.filter((line) => pattern.test(line));
+
+Deno.test("trims paths with offsets wrapping around the end", () => {
+	const lottie = composition([{
+		ty: 4,
+		ip: 0,
+		op: 30,
+		ks: {},
+		shapes: [{
+			ty: "gr",
+			it: [
+				{ ty: "sh", ks: line },
+				{ ty: "st", c: still([1, 0, 0]), o: still(100), w: still(2) },
+				// Half of the line, starting at three quarters of it
+				{ ty: "tm", s: still(0), e: still(50), o: still(270) },
+			],
+		}],
+	}]);
+	const points = painted(lottie, 0, /^(moveTo|bezierCurveTo)/).map((line) =>
+		line.replace(/[\d.]+/g, (number) => String(Math.round(Number(number))))
+	);
+	assert.deepEqual(points, [
+		"moveTo(8, 0)",
+		"bezierCurveTo(9, 0, 10, 0, 10, 0)",
+		"moveTo(0, 0)",
+		"bezierCurveTo(0, 0, 1, 0, 2, 0)",
+	]);
+});
+
+Deno.test("applies fills to their own group and unstyled nested groups", () => {
+	const lottie = composition([{
+		ty: 4,
+		ip: 0,
+		op: 30,
+		ks: {},
+		shapes: [
+			{ ty: "gr", it: [{ ty: "sh", ks: line }] },
+			{
+				ty: "gr",
+				it: [
+					{ ty: "sh", ks: line },
+					{ ty: "fl", c: still([0, 0, 1]), o: still(50) },
+				],
+			},
+			{ ty: "fl", c: still([1, 0, 0]), o: still(100) },
+		],
+	}]);
+	// Items are listed from top to bottom, so the last group is painted first
+	assert.deepEqual(painted(lottie, 0, /fillStyle/), [
+		'fillStyle = "rgba(0, 0, 255, 0.5)"',
+		'fillStyle = "rgba(255, 0, 0, 1)"',
+	]);
+});
+
+Deno.test("maps precomp time with the start time and stretch", () => {
+	const lottie = composition([{
+		ty: 0,
+		refId: "fade",
+		ip: 0,
+		op: 30,
+		st: 5,
+		sr: 2,
+		w: 20,
+		h: 20,
+		ks: {},
+	}], {
+		assets: [{
+			id: "fade",
+			layers: [solid({
+				ks: {
+					o: {
+						a: 1,
+						k: [
+							{ t: 0, s: [0], o: { x: [0], y: [0] }, i: { x: [1], y: [1] } },
+							{ t: 10, s: [100] },
+						],
+					},
+				},
+			})],
+		}],
+	});
+	// Frame 5 of the precomp, as it starts at 5 and plays at half speed
+	assert.deepEqual(painted(lottie, 15, /globalAlpha|clip|rect\(/), [
+		"rect(0, 0, 20, 20)",
+		"clip()",
+		"globalAlpha = 0.5",
+	]);
+	assert.deepEqual(painted(lottie, 25, /globalAlpha/), []);
+});
+
+Deno.test("transforms layers by their parents, without their opacity", () => {
+	const lottie = composition([
+		{ ty: 3, ind: 1, ip: 0, op: 30, ks: { p: still([10, 20]), o: still(50) } },
+		solid({ parent: 1, ks: { p: still([1, 2]) } }),
+	]);
+	assert.deepEqual(painted(lottie, 0, /translate\([^0]|globalAlpha/), [
+		"translate(10, 20)",
+		"translate(1, 2)",
+	]);
+});
+
+Deno.test("shows layers between their in and out points", () => {
+	const lottie = composition([solid({
+		ip: 5,
+		op: 8,
+		ks: { p: { a: 1, k: [{ t: 0, s: [0, 0], h: 1 }, { t: 6, s: [4, 4] }] } },
+	})]);
+	const positions = [4, 5, 6, 7, 8].map((frame) =>
+		painted(lottie, frame, /translate\([^0]|fillRect/)
+	);
+	assert.deepEqual(positions, [
+		[],
+		["fillRect(0, 0, 10, 10)"],
+		// The hold keyframe jumps to the next value without interpolating
+		["translate(4, 4)", "fillRect(0, 0, 10, 10)"],
+		["translate(4, 4)", "fillRect(0, 0, 10, 10)"],
+		[],
+	]);
+});
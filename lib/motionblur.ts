@@ -0,0 +1,121 @@
+import { Animation, CallbackAnimation, Duration, Painter } from "./core.ts";
+import { Point } from "./std.ts";
+
+export type MotionBlurSettings = {
+	/** Number of sub-frame samples taken per frame, defaults to 8. */
+	samples?: number;
+	/**
+	 * How long the shutter is open, as a fraction of a frame. Defaults to 0.5,
+	 * which is the same as a 180° shutter on a film camera.
+	 */
+	shutter?: number;
+	/**
+	 * When the shutter opens relative to the frame, as a fraction of a frame.
+	 * Defaults to centering the shutter window on the frame.
+	 */
+	offset?: number;
+	/** Creates the offscreen contexts used for sampling. */
+	createContext: (size: Point) => CanvasRenderingContext2D;
+};
+
+type Buffers = {
+	size: Point;
+	sample: CanvasRenderingContext2D;
+	result: CanvasRenderingContext2D;
+	accumulator: Float64Array;
+};
+
+/**
+ * Creates a painter `Animation` with motion blur, by evaluating `source` at
+ * multiple times within the shutter window of each frame, and averaging the
+ * results. Frames where `source` doesn't change during the shutter window
+ * (according to `Animation.isSameAt`) are painted directly, without sampling.
+ *
+ * The samples are painted to offscreen contexts, without the transform of the
+ * target context, and the result is drawn onto the target with an identity
+ * transform.
+ */
+export function withMotionBlur(
+	source: Animation<Painter>,
+	settings: MotionBlurSettings,
+): Animation<Painter> {
+	const { samples = 8, shutter = 0.5, createContext } = settings;
+	if (!Number.isInteger(samples) || samples < 1) {
+		throw new RangeError(`Sample count should be at least 1, got ${samples}`);
+	}
+	const offset = settings.offset ?? -shutter / 2;
+	const sampleOffsets = Array.from(
+		{ length: samples },
+		(_, i) => new Duration(offset + shutter * i / samples),
+	);
+	let buffers: Buffers | undefined;
+
+	const getBuffers = (size: Point): Buffers => {
+		if (buffers?.size.x !== size.x || buffers.size.y !== size.y) {
+			buffers = {
+				size,
+				sample: createContext(size),
+				result: createContext(size),
+				accumulator: new Float64Array(size.x * size.y * 4),
+			};
+		}
+		return buffers;
+	};
+
+	const paintBlurred = (
+		time: Duration,
+		context: CanvasRenderingContext2D,
+	): void => {
+		const size = { x: context.canvas.width, y: context.canvas.height };
+		const { sample, result, accumulator } = getBuffers(size);
+		accumulator.fill(0);
+		for (const sampleOffset of sampleOffsets) {
+			sample.clearRect(0, 0, size.x, size.y);
+			source.at(time.add(sampleOffset))(sample);
+			const { data } = sample.getImageData(0, 0, size.x, size.y);
+			// Accumulate premultiplied colors, so transparent samples don't
+			// darken the result
+			for (let i = 0; i < data.length; i += 4) {
+				const alpha = data[i + 3];
+				accumulator[i] += data[i] * alpha;
+				accumulator[i + 1] += data[i + 1] * alpha;
+				accumulator[i + 2] += data[i + 2] * alpha;
+				accumulator[i + 3] += alpha;
+			}
+		}
+		const output = result.createImageData(size.x, size.y);
+		for (let i = 0; i < accumulator.length; i += 4) {
+			const alpha = accumulator[i + 3];
+			if (alpha === 0) continue;
+			output.data[i] = accumulator[i] / alpha;
+			output.data[i + 1] = accumulator[i + 1] / alpha;
+			output.data[i + 2] = accumulator[i + 2] / alpha;
+			output.data[i + 3] = alpha / samples;
+		}
+		result.putImageData(output, 0, 0);
+		context.save();
+		context.setTransform(1, 0, 0, 1, 0, 0);
+		context.drawImage(result.canvas, 0, 0);
+		context.restore();
+	};
+
+	const isStaticAround = (time: Duration): boolean => {
+		const first = time.add(sampleOffsets[0]);
+		return sampleOffsets.every((sampleOffset) =>
+			source.isSameAt(first, time.add(sampleOffset))
+		);
+	};
+
+	return new CallbackAnimation(
+		source.duration,
+		source.strategy,
+		(time) =>
+			isStaticAround(time)
+				? source.at(time.add(sampleOffsets[0]))
+				: (context) => paintBlurred(time, context),
+		(a, b) =>
+			sampleOffsets.every((sampleOffset) =>
+				source.isSameAt(a.add(sampleOffset), b.add(sampleOffset))
+			),
+	);
+}
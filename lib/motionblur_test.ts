@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import { withMotionBlur } from "./motionblur.ts";
+import {
+	RecordingContext,
+	recordPainter,
+	snapshotCommands,
+} from "./recording.ts";
+import { createRectPainter, Point, tweenNumber } from "./std.ts";
+
+const size = { x: 100, y: 50 };
+
+const createSquare = (x: number) =>
+	createRectPainter({
+		position: { x, y: 0 },
+		size: { x: 10, y: 10 },
+		fillStyle: "red",
+	});
+
+Deno.test("averages samples within the shutter window", () => {
+	const recorders: RecordingContext[] = [];
+	const createContext = (size: Point) => {
+		const recorder = new RecordingContext({ size });
+		recorders.push(recorder);
+		return recorder.context;
+	};
+	const animation = withMotionBlur(
+		tweenNumber({ from: 0, to: 10, duration: new Duration(10) })
+			.derive(createSquare),
+		{ samples: 2, createContext },
+	);
+	const commands = recordPainter(animation.at(new Duration(5)), { size });
+	assert.deepEqual(snapshotCommands(commands), [
+		"save()",
+		"  setTransform(1, 0, 0, 1, 0, 0)",
+		"  drawImage({ width: 100, height: 50 }, 0, 0)",
+		"restore()",
+	]);
+	const [sample, result] = recorders.map((recorder) =>
+		snapshotCommands(recorder.commands)
+	);
+	assert.deepEqual(sample, [
+		"clearRect(0, 0, 100, 50)",
+		'fillStyle = "red"',
+		"fillRect(4.75, 0, 10, 10)",
+		"getImageData(0, 0, 100, 50)",
+		"clearRect(0, 0, 100, 50)",
+		'fillStyle = "red"',
+		"fillRect(5, 0, 10, 10)",
+		"getImageData(0, 0, 100, 50)",
+	]);
+	assert.deepEqual(result, [
+		"createImageData(100, 50)",
+		"putImageData({ width: 100, height: 50 }, 0, 0)",
+	]);
+});
+
+Deno.test("paints still frames without sampling", () => {
+	const animation = withMotionBlur(
+		tweenNumber({ from: 0, to: 10, duration: new Duration(10) })
+			.extend({ before: Duration.zero, after: new Duration(10) })
+			.derive(createSquare),
+		{ createContext: () => assert.fail("created a sample context") },
+	);
+	assert.deepEqual(
+		snapshotCommands(recordPainter(animation.at(new Duration(15)), { size })),
+		['fillStyle = "red"', "fillRect(10, 0, 10, 10)"],
+	);
+	assert.ok(animation.isSameAt(new Duration(12), new Duration(18)));
+	assert.equal(animation.isSameAt(new Duration(5), new Duration(6)), false);
+	assert.throws(
+		() =>
+			withMotionBlur(animation, {
+				samples: 0,
+				createContext: () => assert.fail("created a sample context"),
+			}),
+		RangeError,
+	);
+});
@@ -0,0 +1,745 @@
+import {
+	Animation,
+	AnimationSettings,
+	defineTween,
+	Lerp,
+	Painter,
+	TweenCreator,
+} from "./core.ts";
+import {
+	clampNumber,
+	CommonShapeSettings,
+	lerpPoint,
+	Point,
+	resolveStyle,
+	tweenNumber,
+} from "./std.ts";
+
+/**
+ * A cubic bezier curve, starting from the end of the previous segment (or the
+ * start of its sub-path). Every kind of path segment is converted to this
+ * form, so paths are easy to measure, split and interpolate.
+ */
+export type PathSegment = {
+	control1: Point;
+	control2: Point;
+	to: Point;
+};
+
+export type SubPath = {
+	start: Point;
+	segments: PathSegment[];
+	closed: boolean;
+};
+
+/** A vector path, made up of a list of sub-paths. */
+export type Path = SubPath[];
+
+/** Creates a segment which is a straight line between the two points. */
+export function lineSegment(from: Point, to: Point): PathSegment {
+	return {
+		control1: lerpPoint(from, to, 1 / 3),
+		control2: lerpPoint(from, to, 2 / 3),
+		to,
+	};
+}
+
+/** Creates a closed path of straight lines between the `points`. */
+export function polygonPath(points: Point[]): Path {
+	if (!points.length) return [];
+	const [start, ...rest] = points;
+	let from = start;
+	const segments = [...rest, start].map((to) => {
+		const segment = lineSegment(from, to);
+		from = to;
+		return segment;
+	});
+	return [{ start, segments, closed: true }];
+}
+
+function quadraticSegment(from: Point, control: Point, to: Point): PathSegment {
+	return {
+		control1: lerpPoint(from, control, 2 / 3),
+		control2: lerpPoint(to, control, 2 / 3),
+		to,
+	};
+}
+
+function arcSegments(
+	from: Point,
+	radiusX: number,
+	radiusY: number,
+	rotationDegrees: number,
+	largeArc: boolean,
+	sweep: boolean,
+	to: Point,
+): PathSegment[] {
+	// Endpoint to center parameterization, from the SVG specification
+	// (https://www.w3.org/TR/SVG2/implnote.html#ArcImplementationNotes)
+	if (from.x === to.x && from.y === to.y) return [];
+	let rx = Math.abs(radiusX);
+	let ry = Math.abs(radiusY);
+	if (rx === 0 || ry === 0) return [lineSegment(from, to)];
+
+	const phi = rotationDegrees * Math.PI / 180;
+	const cos = Math.cos(phi);
+	const sin = Math.sin(phi);
+	const dx = (from.x - to.x) / 2;
+	const dy = (from.y - to.y) / 2;
+	const x1 = cos * dx + sin * dy;
+	const y1 = -sin * dx + cos * dy;
+
+	const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+	if (lambda > 1) {
+		rx *= Math.sqrt(lambda);
+		ry *= Math.sqrt(lambda);
+	}
+
+	const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 -
+		ry * ry * x1 * x1;
+	const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+	let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+	if (largeArc === sweep) coefficient = -coefficient;
+	const cx1 = coefficient * rx * y1 / ry;
+	const cy1 = -coefficient * ry * x1 / rx;
+	const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+	const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+	const angle = (ux: number, uy: number, vx: number, vy: number) =>
+		Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+	const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+	let sweepAngle = angle(
+		(x1 - cx1) / rx,
+		(y1 - cy1) / ry,
+		(-x1 - cx1) / rx,
+		(-y1 - cy1) / ry,
+	);
+	if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+	else if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+	const pointAt = (theta: number): Point => ({
+		x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+		y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+	});
+	const tangentAt = (theta: number): Point => ({
+		x: -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+		y: -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+	});
+
+	const count = Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2));
+	const step = sweepAngle / count;
+	const k = 4 / 3 * Math.tan(step / 4);
+	const segments: PathSegment[] = [];
+	for (let i = 0; i < count; i++) {
+		const theta = startAngle + step * i;
+		const start = pointAt(theta);
+		const end = i === count - 1 ? to : pointAt(theta + step);
+		const startTangent = tangentAt(theta);
+		const endTangent = tangentAt(theta + step);
+		segments.push({
+			control1: {
+				x: start.x + k * startTangent.x,
+				y: start.y + k * startTangent.y,
+			},
+			control2: { x: end.x - k * endTangent.x, y: end.y - k * endTangent.y },
+			to: end,
+		});
+	}
+	return segments;
+}
+
+const numberPattern = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+class PathDataReader {
+	private index = 0;
+
+	constructor(private readonly data: string) {}
+
+	private skipSeparators(): void {
+		while (
+			this.index < this.data.length && /[\s,]/.test(this.data[this.index])
+		) {
+			this.index++;
+		}
+	}
+
+	get isDone(): boolean {
+		this.skipSeparators();
+		return this.index >= this.data.length;
+	}
+
+	get hasNumber(): boolean {
+		this.skipSeparators();
+		return /[-+.\d]/.test(this.data[this.index] ?? "");
+	}
+
+	readCommand(): string {
+		this.skipSeparators();
+		const command = this.data[this.index];
+		if (!/[MmLlHhVvCcSsQqTtAaZz]/.test(command)) {
+			throw new SyntaxError(
+				`Expected path command at ${this.index}, got "${command}"`,
+			);
+		}
+		this.index++;
+		return command;
+	}
+
+	readNumber(): number {
+		this.skipSeparators();
+		numberPattern.lastIndex = this.index;
+		const match = numberPattern.exec(this.data);
+		if (!match) {
+			throw new SyntaxError(`Expected number at ${this.index}`);
+		}
+		this.index += match[0].length;
+		return Number.parseFloat(match[0]);
+	}
+
+	readFlag(): boolean {
+		this.skipSeparators();
+		const flag = this.data[this.index];
+		if (flag !== "0" && flag !== "1") {
+			throw new SyntaxError(`Expected flag at ${this.index}`);
+		}
+		this.index++;
+		return flag === "1";
+	}
+}
+
+/**
+ * Parses SVG path data (the `d` attribute of a `<path>`) into a `Path`.
+ * Supports all commands (M, L, H, V, C, S, Q, T, A, Z), both absolute and
+ * relative.
+ *
+ * @throws {SyntaxError} When the path data is malformed.
+ */
+export function parsePath(data: string): Path {
+	const reader = new PathDataReader(data);
+	const path: Path = [];
+	let current: Point = { x: 0, y: 0 };
+	let subPath: SubPath | undefined;
+	// The reflected control point used by S and T commands
+	let lastCubicControl: Point | undefined;
+	let lastQuadraticControl: Point | undefined;
+
+	const push = (segment: PathSegment) => {
+		if (!subPath) {
+			subPath = { start: current, segments: [], closed: false };
+			path.push(subPath);
+		}
+		subPath.segments.push(segment);
+		current = segment.to;
+	};
+
+	while (!reader.isDone) {
+		const command = reader.readCommand();
+		const isRelative = command === command.toLowerCase();
+		const point = (): Point => {
+			const x = reader.readNumber();
+			const y = reader.readNumber();
+			return isRelative ? { x: current.x + x, y: current.y + y } : { x, y };
+		};
+		const reflect = (control?: Point): Point =>
+			control
+				? { x: 2 * current.x - control.x, y: 2 * current.y - control.y }
+				: current;
+
+		let isFirst = true;
+		do {
+			let cubicControl: Point | undefined;
+			let quadraticControl: Point | undefined;
+			switch (command.toUpperCase()) {
+				case "M": {
+					const to = point();
+					if (isFirst) {
+						current = to;
+						subPath = undefined;
+					} else {
+						push(lineSegment(current, to));
+					}
+					break;
+				}
+				case "L":
+					push(lineSegment(current, point()));
+					break;
+				case "H": {
+					const x = reader.readNumber();
+					push(lineSegment(current, {
+						x: isRelative ? current.x + x : x,
+						y: current.y,
+					}));
+					break;
+				}
+				case "V": {
+					const y = reader.readNumber();
+					push(lineSegment(current, {
+						x: current.x,
+						y: isRelative ? current.y + y : y,
+					}));
+					break;
+				}
+				case "C": {
+					const control1 = point();
+					cubicControl = point();
+					push({ control1, control2: cubicControl, to: point() });
+					break;
+				}
+				case "S": {
+					const control1 = reflect(lastCubicControl);
+					cubicControl = point();
+					push({ control1, control2: cubicControl, to: point() });
+					break;
+				}
+				case "Q": {
+					quadraticControl = point();
+					push(quadraticSegment(current, quadraticControl, point()));
+					break;
+				}
+				case "T": {
+					quadraticControl = reflect(lastQuadraticControl);
+					push(quadraticSegment(current, quadraticControl, point()));
+					break;
+				}
+				case "A": {
+					const radiusX = reader.readNumber();
+					const radiusY = reader.readNumber();
+					const rotation = reader.readNumber();
+					const largeArc = reader.readFlag();
+					const sweep = reader.readFlag();
+					const to = point();
+					const segments = arcSegments(
+						current,
+						radiusX,
+						radiusY,
+						rotation,
+						largeArc,
+						sweep,
+						to,
+					);
+					segments.forEach(push);
+					current = to;
+					break;
+				}
+				case "Z": {
+					if (subPath) {
+						if (
+							current.x !== subPath.start.x || current.y !== subPath.start.y
+						) {
+							push(lineSegment(current, subPath.start));
+						}
+						subPath.closed = true;
+						current = subPath.start;
+						subPath = undefined;
+					}
+					break;
+				}
+			}
+			lastCubicControl = cubicControl;
+			lastQuadraticControl = quadraticControl;
+			isFirst = false;
+		} while (command.toUpperCase() !== "Z" && reader.hasNumber);
+	}
+	return path;
+}
+
+function formatPoint(point: Point): string {
+	return `${point.x} ${point.y}`;
+}
+
+/** Serializes a `Path` to SVG path data, using only M, C and Z commands. */
+export function pathToString(path: Path): string {
+	return path.map((subPath) =>
+		[
+			`M${formatPoint(subPath.start)}`,
+			...subPath.segments.map((segment) =>
+				`C${formatPoint(segment.control1)} ${formatPoint(segment.control2)} ${
+					formatPoint(segment.to)
+				}`
+			),
+			...(subPath.closed ? ["Z"] : []),
+		].join(" ")
+	).join(" ");
+}
+
+/** Adds the `path` to the context's current path, without painting it. */
+export function tracePath(
+	context: CanvasRenderingContext2D,
+	path: Path,
+): void {
+	for (const subPath of path) {
+		context.moveTo(subPath.start.x, subPath.start.y);
+		for (const { control1, control2, to } of subPath.segments) {
+			context.bezierCurveTo(
+				control1.x,
+				control1.y,
+				control2.x,
+				control2.y,
+				to.x,
+				to.y,
+			);
+		}
+		if (subPath.closed) context.closePath();
+	}
+}
+
+function pointOnSegment(from: Point, segment: PathSegment, t: number): Point {
+	const mt = 1 - t;
+	const a = mt * mt * mt;
+	const b = 3 * mt * mt * t;
+	const c = 3 * mt * t * t;
+	const d = t * t * t;
+	return {
+		x: a * from.x + b * segment.control1.x + c * segment.control2.x +
+			d * segment.to.x,
+		y: a * from.y + b * segment.control1.y + c * segment.control2.y +
+			d * segment.to.y,
+	};
+}
+
+/**
+ * Splits a segment at `t` using de Casteljau's algorithm, returning the
+ * part before and after.
+ */
+export function splitSegment(
+	from: Point,
+	segment: PathSegment,
+	t: number,
+): [PathSegment, PathSegment] {
+	const p01 = lerpPoint(from, segment.control1, t);
+	const p12 = lerpPoint(segment.control1, segment.control2, t);
+	const p23 = lerpPoint(segment.control2, segment.to, t);
+	const p012 = lerpPoint(p01, p12, t);
+	const p123 = lerpPoint(p12, p23, t);
+	const middle = lerpPoint(p012, p123, t);
+	return [
+		{ control1: p01, control2: p012, to: middle },
+		{ control1: p123, control2: p23, to: segment.to },
+	];
+}
+
+/** Returns the part of a segment between the parameters `t0` and `t1`. */
+function sliceSegment(
+	from: Point,
+	segment: PathSegment,
+	t0: number,
+	t1: number,
+): PathSegment {
+	if (t1 < 1) segment = splitSegment(from, segment, t1)[0];
+	if (t0 > 0) segment = splitSegment(from, segment, t0 / t1)[1];
+	return segment;
+}
+
+const samplesPerSegment = 32;
+
+type SegmentMeasure = {
+	from: Point;
+	segment: PathSegment;
+	/** The arc length at each evenly spaced sample of `t`. */
+	lengths: number[];
+};
+
+type PathMeasure = {
+	subPaths: { subPath: SubPath; segments: SegmentMeasure[] }[];
+	length: number;
+};
+
+const measureCache = new WeakMap<Path, PathMeasure>();
+
+function measurePath(path: Path): PathMeasure {
+	const cached = measureCache.get(path);
+	if (cached) return cached;
+	let length = 0;
+	const subPaths = path.map((subPath) => {
+		let from = subPath.start;
+		const segments = subPath.segments.map((segment) => {
+			const lengths = [0];
+			let previous = from;
+			for (let i = 1; i <= samplesPerSegment; i++) {
+				const point = pointOnSegment(from, segment, i / samplesPerSegment);
+				lengths.push(
+					lengths[i - 1] +
+						Math.hypot(point.x - previous.x, point.y - previous.y),
+				);
+				previous = point;
+			}
+			const measure = { from, segment, lengths };
+			length += lengths[samplesPerSegment];
+			from = segment.to;
+			return measure;
+		});
+		return { subPath, segments };
+	});
+	const result = { subPaths, length };
+	measureCache.set(path, result);
+	return result;
+}
+
+/** Finds the `t` parameter at which the segment has the given arc length. */
+function parameterAtLength(measure: SegmentMeasure, length: number): number {
+	const { lengths } = measure;
+	if (length <= 0) return 0;
+	if (length >= lengths[samplesPerSegment]) return 1;
+	let i = 1;
+	while (lengths[i] < length) i++;
+	const fraction = (length - lengths[i - 1]) / (lengths[i] - lengths[i - 1]);
+	return (i - 1 + fraction) / samplesPerSegment;
+}
+
+/** Returns the approximate arc length of the whole `path`. */
+export function getPathLength(path: Path): number {
+	return measurePath(path).length;
+}
+
+/**
+ * Returns the part of the `path` between `start` and `end`, given as
+ * fractions (between 0 and 1) of the path's total length. Sub-paths are
+ * measured one after the other, as if they were a single path.
+ */
+export function trimPath(path: Path, start: number, end: number): Path {
+	start = clampNumber(0, 1, start);
+	end = clampNumber(0, 1, end);
+	if (start === 0 && end === 1) return path;
+	const measure = measurePath(path);
+	const startLength = start * measure.length;
+	const endLength = end * measure.length;
+	const result: Path = [];
+	let offset = 0;
+	for (const { segments } of measure.subPaths) {
+		let trimmed: SubPath | undefined;
+		for (const segmentMeasure of segments) {
+			const segmentLength = segmentMeasure.lengths[samplesPerSegment];
+			const segmentStart = offset;
+			offset += segmentLength;
+			if (offset < startLength || segmentStart > endLength) continue;
+			if (offset === startLength && segmentLength > 0) continue;
+			const t0 = parameterAtLength(segmentMeasure, startLength - segmentStart);
+			const t1 = parameterAtLength(segmentMeasure, endLength - segmentStart);
+			if (t1 <= t0) continue;
+			const { from, segment } = segmentMeasure;
+			if (!trimmed) {
+				trimmed = {
+					start: t0 > 0 ? pointOnSegment(from, segment, t0) : from,
+					segments: [],
+					closed: false,
+				};
+				result.push(trimmed);
+			}
+			trimmed.segments.push(sliceSegment(from, segment, t0, t1));
+		}
+	}
+	return result;
+}
+
+export type PathSettings = CommonShapeSettings & {
+	path: Path;
+	/** Where the visible part of the path starts, from 0 to 1. */
+	trimStart?: number;
+	/** Where the visible part of the path ends, from 0 to 1. */
+	trimEnd?: number;
+	lineCap?: CanvasLineCap;
+	lineJoin?: CanvasLineJoin;
+};
+
+export function createPathPainter(
+	settings: PathSettings,
+): Painter {
+	return (context) => {
+		const {
+			path,
+			trimStart = 0,
+			trimEnd = 1,
+			fillStyle,
+			strokeStyle,
+			strokeWidth,
+			lineCap,
+			lineJoin,
+		} = settings;
+		if (trimEnd <= trimStart) return;
+		context.beginPath();
+		tracePath(context, trimPath(path, trimStart, trimEnd));
+		if (fillStyle) {
+			context.fillStyle = resolveStyle(context, fillStyle);
+			context.fill();
+		}
+		if (strokeStyle) {
+			if (strokeWidth) context.lineWidth = strokeWidth;
+			if (lineCap) context.lineCap = lineCap;
+			if (lineJoin) context.lineJoin = lineJoin;
+			context.strokeStyle = resolveStyle(context, strokeStyle);
+			context.stroke();
+		}
+	};
+}
+
+/**
+ * Creates an animation which "draws on" the path described by `settings`,
+ * by animating `trimEnd` from 0 to 1.
+ */
+export function animatePathDrawOn(
+	settings: PathSettings,
+	animSettings: AnimationSettings,
+): Animation<PathSettings> {
+	return tweenNumber({ from: 0, to: 1, ...animSettings })
+		.derive((trimEnd) => ({ ...settings, trimEnd }));
+}
+
+function approximateSegmentLength(from: Point, segment: PathSegment): number {
+	let length = 0;
+	let previous = from;
+	for (let i = 1; i <= 8; i++) {
+		const point = pointOnSegment(from, segment, i / 8);
+		length += Math.hypot(point.x - previous.x, point.y - previous.y);
+		previous = point;
+	}
+	return length;
+}
+
+/** Splits the longest segments of the sub-path until it has `count` segments. */
+function subdivideSubPath(subPath: SubPath, count: number): SubPath {
+	const segments = subPath.segments.length
+		? [...subPath.segments]
+		: [lineSegment(subPath.start, subPath.start)];
+	while (segments.length < count) {
+		let longest = 0;
+		let longestLength = -1;
+		let longestFrom = subPath.start;
+		let from = subPath.start;
+		segments.forEach((segment, i) => {
+			const length = approximateSegmentLength(from, segment);
+			if (length > longestLength) {
+				longest = i;
+				longestLength = length;
+				longestFrom = from;
+			}
+			from = segment.to;
+		});
+		segments.splice(
+			longest,
+			1,
+			...splitSegment(longestFrom, segments[longest], 0.5),
+		);
+	}
+	return { ...subPath, segments };
+}
+
+function reverseSubPath(subPath: SubPath): SubPath {
+	const points = [subPath.start, ...subPath.segments.map((s) => s.to)];
+	const segments = subPath.segments.map((segment, i) => ({
+		control1: segment.control2,
+		control2: segment.control1,
+		to: points[i],
+	})).reverse();
+	return { start: points[points.length - 1], segments, closed: subPath.closed };
+}
+
+function rotateSubPath(subPath: SubPath, offset: number): SubPath {
+	if (offset === 0) return subPath;
+	return {
+		start: subPath.segments[offset - 1].to,
+		segments: [
+			...subPath.segments.slice(offset),
+			...subPath.segments.slice(0, offset),
+		],
+		closed: subPath.closed,
+	};
+}
+
+function subPathNodes(subPath: SubPath): Point[] {
+	return [subPath.start, ...subPath.segments.map((segment) => segment.to)];
+}
+
+function squaredDistance(a: Point, b: Point): number {
+	return (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+}
+
+/**
+ * Rotates and/or reverses `to`, so that its nodes are as close as possible
+ * to the nodes of `from`. Both sub-paths need to have the same number of
+ * segments. Open sub-paths are only ever reversed, not rotated.
+ */
+function alignSubPath(from: SubPath, to: SubPath): SubPath {
+	const fromNodes = subPathNodes(from);
+	const rotations = from.closed && to.closed ? to.segments.length : 1;
+	let best = to;
+	let bestCost = Infinity;
+	for (const candidate of [to, reverseSubPath(to)]) {
+		for (let offset = 0; offset < rotations; offset++) {
+			const rotated = rotateSubPath(candidate, offset);
+			const cost = subPathNodes(rotated).reduce(
+				(sum, node, i) => sum + squaredDistance(node, fromNodes[i]),
+				0,
+			);
+			if (cost < bestCost) {
+				best = rotated;
+				bestCost = cost;
+			}
+		}
+	}
+	return best;
+}
+
+/** Creates a sub-path collapsed to the center of `other`'s nodes. */
+function collapsedSubPath(other: SubPath): SubPath {
+	const nodes = subPathNodes(other);
+	// The last node of a closed sub-path is its start again
+	if (other.closed && nodes.length > 1) nodes.pop();
+	const center = {
+		x: nodes.reduce((sum, node) => sum + node.x, 0) / nodes.length,
+		y: nodes.reduce((sum, node) => sum + node.y, 0) / nodes.length,
+	};
+	return {
+		start: center,
+		segments: other.segments.map(() => lineSegment(center, center)),
+		closed: other.closed,
+	};
+}
+
+const matchCache = new WeakMap<Path, WeakMap<Path, [Path, Path]>>();
+
+/**
+ * Converts two paths into equivalent paths with the same structure (number
+ * of sub-paths and segments), with the starting point and winding of `to`
+ * chosen to match `from` as closely as possible. The results can be
+ * interpolated point by point.
+ */
+export function matchPaths(from: Path, to: Path): [Path, Path] {
+	const cached = matchCache.get(from)?.get(to);
+	if (cached) return cached;
+	const count = Math.max(from.length, to.length);
+	const matchedFrom: Path = [];
+	const matchedTo: Path = [];
+	for (let i = 0; i < count; i++) {
+		let a = from[i] ?? collapsedSubPath(to[i]);
+		let b = to[i] ?? collapsedSubPath(from[i]);
+		const segmentCount = Math.max(a.segments.length, b.segments.length, 1);
+		a = subdivideSubPath(a, segmentCount);
+		b = subdivideSubPath(b, segmentCount);
+		matchedFrom.push(a);
+		matchedTo.push(alignSubPath(a, b));
+	}
+	const result: [Path, Path] = [matchedFrom, matchedTo];
+	const cache = matchCache.get(from) ?? new WeakMap();
+	cache.set(to, result);
+	matchCache.set(from, cache);
+	return result;
+}
+
+/**
+ * Interpolates between two arbitrary paths, by matching their structure
+ * with `matchPaths` (which is cached for each pair of paths).
+ */
+export const lerpPath: Lerp<Path> = (a, b, t) => {
+	const [from, to] = matchPaths(a, b);
+	return from.map((subPath, i) => ({
+		start: lerpPoint(subPath.start, to[i].start, t),
+		segments: subPath.segments.map((segment, j) => ({
+			control1: lerpPoint(segment.control1, to[i].segments[j].control1, t),
+			control2: lerpPoint(segment.control2, to[i].segments[j].control2, t),
+			to: lerpPoint(segment.to, to[i].segments[j].to, t),
+		})),
+		closed: (t < 0.5 ? subPath : to[i]).closed,
+	}));
+};
+
+export const tweenPath: TweenCreator<Path> = defineTween(lerpPath);
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import {
+	lerpPath,
+	lineSegment,
+	matchPaths,
+	parsePath,
+	Path,
+	pathToString,
+	polygonPath,
+	tweenPath,
+} from "./path.ts";
+import { Point } from "./std.ts";
+
+Deno.test("parses absolute and relative lines", () => {
+	assert.deepEqual(parsePath("M10 20 L30 20 h-10 V40 z"), [{
+		start: { x: 10, y: 20 },
+		segments: [
+			lineSegment({ x: 10, y: 20 }, { x: 30, y: 20 }),
+			lineSegment({ x: 30, y: 20 }, { x: 20, y: 20 }),
+			lineSegment({ x: 20, y: 20 }, { x: 20, y: 40 }),
+			lineSegment({ x: 20, y: 40 }, { x: 10, y: 20 }),
+		],
+		closed: true,
+	}]);
+});
+
+Deno.test("treats extra move coordinates as lines", () => {
+	assert.deepEqual(
+		parsePath("m1,1 2,0 0,2"),
+		parsePath("M1 1 L3 1 L3 3"),
+	);
+});
+
+Deno.test("reads numbers without separators", () => {
+	assert.deepEqual(
+		parsePath("M.5.5L-1e1-2"),
+		parsePath("M 0.5 0.5 L -10 -2"),
+	);
+});
+
+Deno.test("reflects control points of smooth curves", () => {
+	const [subPath] = parsePath("M0 0 C0 10 10 10 10 0 S20 -10 20 0");
+	assert.deepEqual(subPath.segments[1], {
+		control1: { x: 10, y: -10 },
+		control2: { x: 20, y: -10 },
+		to: { x: 20, y: 0 },
+	});
+	// Without a previous curve the current point is the control point
+	const [line] = parsePath("M0 0 L10 0 S20 10 20 0");
+	assert.deepEqual(line.segments[1].control1, { x: 10, y: 0 });
+});
+
+Deno.test("converts quadratic curves to cubic curves", () => {
+	const [subPath] = parsePath("M0 0 Q15 30 30 0 T60 0");
+	assert.deepEqual(subPath.segments, [
+		{
+			control1: { x: 10, y: 20 },
+			control2: { x: 20, y: 20 },
+			to: { x: 30, y: 0 },
+		},
+		{
+			control1: { x: 40, y: -20 },
+			control2: { x: 50, y: -20 },
+			to: { x: 60, y: 0 },
+		},
+	]);
+});
+
+Deno.test("converts arcs to curves ending at their end point", () => {
+	const [subPath] = parsePath("M0 0 A10 10 0 1 1 20 0");
+	assert.ok(subPath.segments.length >= 2);
+	const end = subPath.segments.at(-1)!.to;
+	assert.deepEqual(end, { x: 20, y: 0 });
+	// Every segment ends on the circle around the center of the two points
+	for (const { to } of subPath.segments) {
+		assert.ok(Math.abs(Math.hypot(to.x - 10, to.y) - 10) < 1e-9);
+	}
+	// Flags don't need separators
+	assert.deepEqual(
+		parsePath("M0 0 A10 10 0 1120 0"),
+		parsePath("M0 0 A10 10 0 1 1 20 0"),
+	);
+});
+
+Deno.test("starts new sub-paths after closing", () => {
+	const path = parsePath("M0 0 L10 0 L0 10 Z l5 5");
+	assert.equal(path.length, 2);
+	assert.deepEqual(path[1].start, { x: 0, y: 0 });
+	assert.deepEqual(path[1].segments[0].to, { x: 5, y: 5 });
+	assert.equal(
+		pathToString(parsePath("M0 0 C1 2 3 4 0 0 Z")),
+		"M0 0 C1 2 3 4 0 0 Z",
+	);
+});
+
+Deno.test("rejects malformed path data", () => {
+	for (const data of ["M0", "M0 0 X1 1", "L1 1 2", "M0 0 A1 1 0 2 0 1 1"]) {
+		assert.throws(() => parsePath(data), SyntaxError, data);
+	}
+});
+
+const nodes = (path: Path): Point[][] =>
+	path.map((subPath) => [
+		subPath.start,
+		...subPath.segments.map((segment) => segment.to),
+	]);
+
+const square = polygonPath([
+	{ x: 0, y: 0 },
+	{ x: 10, y: 0 },
+	{ x: 10, y: 10 },
+	{ x: 0, y: 10 },
+]);
+
+Deno.test("matches paths to the same number of segments", () => {
+	const triangle = polygonPath([
+		{ x: 0, y: 0 },
+		{ x: 10, y: 0 },
+		{ x: 0, y: 10 },
+	]);
+	const [from, to] = matchPaths(square, triangle);
+	assert.deepEqual(from, square);
+	assert.equal(to[0].segments.length, 4);
+	assert.ok(to[0].closed);
+	// The longest edge of the triangle is split in the middle
+	assert.ok(
+		nodes(to)[0].some((node) => node.x === 5 && node.y === 5),
+	);
+	assert.equal(matchPaths(square, triangle), matchPaths(square, triangle));
+});
+
+Deno.test("aligns the start and winding of closed paths", () => {
+	const rotated = polygonPath([
+		{ x: 10, y: 10 },
+		{ x: 10, y: 0 },
+		{ x: 0, y: 0 },
+		{ x: 0, y: 10 },
+	]);
+	const [, to] = matchPaths(square, rotated);
+	assert.deepEqual(nodes(to), nodes(square));
+	// So the same shape doesn't turn while morphing
+	assert.deepEqual(nodes(lerpPath(square, rotated, 0.5)), nodes(square));
+});
+
+Deno.test("grows extra sub-paths from their center", () => {
+	const twoSquares = [
+		...square,
+		...polygonPath([
+			{ x: 20, y: 0 },
+			{ x: 30, y: 0 },
+			{ x: 30, y: 10 },
+			{ x: 20, y: 10 },
+		]),
+	];
+	const [from] = matchPaths(square, twoSquares);
+	assert.equal(from.length, 2);
+	assert.ok(
+		nodes(from)[1].every((node) => node.x === 25 && node.y === 5),
+	);
+	const tween = tweenPath({
+		from: square,
+		to: twoSquares,
+		duration: new Duration(10),
+	});
+	assert.deepEqual(nodes(tween.at(new Duration(10))), nodes(twoSquares));
+	assert.deepEqual(nodes(tween.at(new Duration(5)))[1][0], { x: 22.5, y: 2.5 });
+});
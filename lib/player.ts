@@ -0,0 +1,205 @@
+import { Animation, Duration, Painter } from "./core.ts";
+
+/** Schedules a callback for the next display refresh, returns a handle. */
+export type FrameScheduler = {
+	request: (callback: () => void) => number;
+	cancel: (handle: number) => void;
+};
+
+/** Returns the current wall-clock time in milliseconds. */
+export type Clock = () => number;
+
+export type PlayerEvent = "timeupdate" | "play" | "pause" | "ended";
+
+export type PlayerListener = (time: Duration) => void;
+
+export type PlayerSettings = {
+	/** When true, playback wraps around instead of stopping at the end. */
+	loop?: boolean;
+	/** Multiplier for the playback speed, can be negative to play backwards. */
+	playbackRate?: number;
+	/** When true (default), the canvas is cleared before each repaint. */
+	clear?: boolean;
+	scheduler?: FrameScheduler;
+	clock?: Clock;
+};
+
+const animationFrameScheduler: FrameScheduler = {
+	request: (callback) => requestAnimationFrame(callback),
+	cancel: (handle) => cancelAnimationFrame(handle),
+};
+
+const performanceClock: Clock = () => performance.now();
+
+/**
+ * `Player` plays an `Animation<Painter>` on a rendering context in real time.
+ *
+ * The current frame is always computed from the wall-clock time elapsed since
+ * playback started, so dropped frames or a throttled tab never make the
+ * animation drift, they only skip frames. Frames which the animation reports
+ * as the same as the last painted one (using `Animation.isSameAt`) are not
+ * repainted.
+ */
+export class Player {
+	loop: boolean;
+	clear: boolean;
+
+	private readonly scheduler: FrameScheduler;
+	private readonly clock: Clock;
+	private readonly listeners = new Map<PlayerEvent, Set<PlayerListener>>();
+
+	private rate: number;
+	private position = 0;
+	private anchorPosition = 0;
+	private anchorWallTime = 0;
+	private handle?: number;
+	private paintedFrame?: Duration;
+
+	constructor(
+		private animation: Animation<Painter>,
+		private readonly context: CanvasRenderingContext2D,
+		public readonly frameRate: number,
+		settings: PlayerSettings = {},
+	) {
+		this.loop = settings.loop ?? false;
+		this.clear = settings.clear ?? true;
+		this.rate = settings.playbackRate ?? 1;
+		this.scheduler = settings.scheduler ?? animationFrameScheduler;
+		this.clock = settings.clock ?? performanceClock;
+	}
+
+	/** The frame currently shown, as a point in time. */
+	get currentTime(): Duration {
+		return new Duration(Math.floor(this.position));
+	}
+
+	get duration(): Duration {
+		return this.animation.duration;
+	}
+
+	get isPlaying(): boolean {
+		return this.handle !== undefined;
+	}
+
+	get playbackRate(): number {
+		return this.rate;
+	}
+
+	set playbackRate(rate: number) {
+		this.reanchor();
+		this.rate = rate;
+	}
+
+	play(): void {
+		if (this.isPlaying) return;
+		if (!this.loop && this.isAtEnd()) {
+			this.position = this.rate < 0 ? this.duration.frame : 0;
+		}
+		this.reanchor();
+		this.handle = this.scheduler.request(this.tick);
+		this.emit("play");
+	}
+
+	pause(): void {
+		if (!this.isPlaying) return;
+		this.scheduler.cancel(this.handle!);
+		this.handle = undefined;
+		this.emit("pause");
+	}
+
+	toggle(): void {
+		if (this.isPlaying) this.pause();
+		else this.play();
+	}
+
+	/** Jumps to the given time, clamped to the animation's bounds. */
+	seek(time: Duration): void {
+		this.position = time.clamp(Duration.zero, this.duration).frame;
+		this.reanchor();
+		this.render();
+	}
+
+	/** Pauses playback and moves by the given number of frames. */
+	step(frames: number = 1): void {
+		this.pause();
+		this.seek(this.currentTime.add(new Duration(frames)));
+	}
+
+	/** Replaces the animation being played, keeping the current time. */
+	setAnimation(animation: Animation<Painter>): void {
+		this.animation = animation;
+		this.position = Math.min(this.position, animation.duration.frame);
+		this.invalidate();
+		this.render();
+	}
+
+	/** Forces the next render to repaint, even if the frame didn't change. */
+	invalidate(): void {
+		this.paintedFrame = undefined;
+	}
+
+	/** Paints the current frame, unless it is the same as the last one. */
+	render(): void {
+		const frame = this.currentTime;
+		if (
+			this.paintedFrame && this.animation.isSameAt(this.paintedFrame, frame)
+		) {
+			this.emit("timeupdate");
+			return;
+		}
+		this.paintedFrame = frame;
+		if (this.clear) {
+			const { width, height } = this.context.canvas;
+			this.context.clearRect(0, 0, width, height);
+		}
+		this.animation.at(frame)(this.context);
+		this.emit("timeupdate");
+	}
+
+	/** Registers a listener, returns a function which removes it. */
+	on(event: PlayerEvent, listener: PlayerListener): () => void {
+		const set = this.listeners.get(event) ?? new Set();
+		this.listeners.set(event, set);
+		set.add(listener);
+		return () => set.delete(listener);
+	}
+
+	private emit(event: PlayerEvent): void {
+		const time = this.currentTime;
+		this.listeners.get(event)?.forEach((listener) => listener(time));
+	}
+
+	private isAtEnd(): boolean {
+		return this.rate < 0
+			? this.position <= 0
+			: this.position >= this.duration.frame;
+	}
+
+	private reanchor(): void {
+		this.anchorPosition = this.position;
+		this.anchorWallTime = this.clock();
+	}
+
+	private readonly tick = (): void => {
+		const elapsedSeconds = (this.clock() - this.anchorWallTime) / 1000;
+		const position = this.anchorPosition +
+			elapsedSeconds * this.frameRate * this.rate;
+		// The end frame is included in playback, so the loop length is one
+		// frame longer than the duration.
+		const length = this.duration.frame + 1;
+
+		if (this.loop) {
+			this.position = (position % length + length) % length;
+		} else {
+			this.position = Math.max(0, Math.min(this.duration.frame, position));
+		}
+
+		const ended = !this.loop && position !== this.position;
+		this.handle = ended ? undefined : this.scheduler.request(this.tick);
+		this.render();
+		if (ended) {
+			this.emit("pause");
+			this.emit("ended");
+		}
+	};
+}
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import { Player } from "./player.ts";
+import { RecordingContext, snapshotCommands } from "./recording.ts";
+import { createRectPainter, tweenNumber } from "./std.ts";
+
+/** A scheduler and clock which only advance when the test says so. */
+function createManualTime() {
+	let now = 0;
+	let callbacks = new Map<number, () => void>();
+	let nextHandle = 1;
+	return {
+		clock: () => now,
+		scheduler: {
+			request: (callback: () => void) => {
+				callbacks.set(nextHandle, callback);
+				return nextHandle++;
+			},
+			cancel: (handle: number) => callbacks.delete(handle),
+		},
+		get pending() {
+			return callbacks.size;
+		},
+		/** Moves the clock forward and runs the scheduled callbacks. */
+		advance(milliseconds: number) {
+			now += milliseconds;
+			const due = [...callbacks.values()];
+			callbacks = new Map();
+			due.forEach((callback) => callback());
+		},
+	};
+}
+
+const frames = (frame: number) => new Duration(frame);
+
+function createPlayer(settings: { loop?: boolean; playbackRate?: number }) {
+	const recorder = new RecordingContext({ size: { x: 100, y: 10 } });
+	const time = createManualTime();
+	const animation = tweenNumber({ from: 0, to: 100, duration: frames(10) })
+		.derive((x) =>
+			createRectPainter({
+				position: { x, y: 0 },
+				size: { x: 10, y: 10 },
+				fillStyle: "red",
+			})
+		);
+	const player = new Player(animation, recorder.context, 10, {
+		...settings,
+		scheduler: time.scheduler,
+		clock: time.clock,
+	});
+	return { recorder, time, player };
+}
+
+Deno.test("plays in wall-clock time and stops at the end", () => {
+	const { time, player } = createPlayer({});
+	const events: string[] = [];
+	for (const event of ["play", "pause", "ended"] as const) {
+		player.on(event, (time) => events.push(`${event} ${time.frame}`));
+	}
+	player.play();
+	assert.ok(player.isPlaying);
+	time.advance(250);
+	assert.equal(player.currentTime.frame, 2);
+	// Dropped frames are skipped, not slowed down
+	time.advance(500);
+	assert.equal(player.currentTime.frame, 7);
+	time.advance(1000);
+	assert.equal(player.currentTime.frame, 10);
+	assert.equal(player.isPlaying, false);
+	assert.equal(time.pending, 0);
+	assert.deepEqual(events, ["play 0", "pause 10", "ended 10"]);
+	// Playing again starts over
+	player.play();
+	assert.equal(player.currentTime.frame, 0);
+});
+
+Deno.test("loops and plays backwards", () => {
+	const looping = createPlayer({ loop: true });
+	looping.player.play();
+	looping.time.advance(1200);
+	assert.equal(looping.player.currentTime.frame, 1);
+	assert.ok(looping.player.isPlaying);
+
+	const backwards = createPlayer({ playbackRate: -2 });
+	backwards.player.seek(frames(10));
+	backwards.player.play();
+	backwards.time.advance(200);
+	assert.equal(backwards.player.currentTime.frame, 6);
+});
+
+Deno.test("pauses, seeks and steps", () => {
+	const { time, player } = createPlayer({});
+	player.play();
+	time.advance(300);
+	player.pause();
+	assert.equal(time.pending, 0);
+	time.advance(300);
+	assert.equal(player.currentTime.frame, 3);
+	player.seek(frames(20));
+	assert.equal(player.currentTime.frame, 10);
+	player.step(-4);
+	assert.equal(player.currentTime.frame, 6);
+	player.toggle();
+	time.advance(100);
+	assert.equal(player.currentTime.frame, 7);
+});
+
+Deno.test("only repaints frames which changed", () => {
+	const { recorder, player } = createPlayer({});
+	player.seek(frames(2));
+	assert.deepEqual(snapshotCommands(recorder.commands), [
+		"clearRect(0, 0, 100, 10)",
+		'fillStyle = "red"',
+		"fillRect(20, 0, 10, 10)",
+	]);
+	recorder.clear();
+	player.seek(frames(2));
+	assert.deepEqual(recorder.commands, []);
+	player.invalidate();
+	player.render();
+	assert.equal(recorder.commands.length, 3);
+});
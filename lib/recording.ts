@@ -0,0 +1,593 @@
+import { Animation, Duration, Painter } from "./core.ts";
+import { Point } from "./std.ts";
+
+/** A JSON-compatible value, as recorded by a `RecordingContext`. */
+export type RecordedValue =
+	| number
+	| string
+	| boolean
+	| null
+	| RecordedValue[]
+	| { [key: string]: RecordedValue };
+
+/**
+ * A single operation on a `RecordingContext`: either a method call, or a
+ * property being set.
+ */
+export type RecordedCommand =
+	| { type: "call"; name: string; args: RecordedValue[] }
+	| { type: "set"; name: string; value: RecordedValue };
+
+class RecordingGradient {
+	readonly stops: RecordedValue[] = [];
+
+	constructor(readonly kind: string, readonly args: number[]) {}
+
+	addColorStop(offset: number, color: string): void {
+		this.stops.push([offset, color]);
+	}
+}
+
+/**
+ * A 2D affine transform, implementing the parts of `DOMMatrix` used by
+ * painters, as `DOMMatrix` isn't available in every runtime (like Deno).
+ */
+class RecordingMatrix {
+	constructor(
+		readonly a = 1,
+		readonly b = 0,
+		readonly c = 0,
+		readonly d = 1,
+		readonly e = 0,
+		readonly f = 0,
+	) {}
+
+	readonly is2D = true;
+
+	get isIdentity(): boolean {
+		return this.a === 1 && this.b === 0 && this.c === 0 && this.d === 1 &&
+			this.e === 0 && this.f === 0;
+	}
+
+	multiply(m: DOMMatrix2DInit): RecordingMatrix {
+		const { a = 1, b = 0, c = 0, d = 1, e = 0, f = 0 } = m;
+		return new RecordingMatrix(
+			this.a * a + this.c * b,
+			this.b * a + this.d * b,
+			this.a * c + this.c * d,
+			this.b * c + this.d * d,
+			this.a * e + this.c * f + this.e,
+			this.b * e + this.d * f + this.f,
+		);
+	}
+
+	inverse(): RecordingMatrix {
+		const { a, b, c, d, e, f } = this;
+		const determinant = a * d - b * c;
+		if (determinant === 0) {
+			return new RecordingMatrix(NaN, NaN, NaN, NaN, NaN, NaN);
+		}
+		return new RecordingMatrix(
+			d / determinant,
+			-b / determinant,
+			-c / determinant,
+			a / determinant,
+			(c * f - d * e) / determinant,
+			(b * e - a * f) / determinant,
+		);
+	}
+
+	transformPoint(point: DOMPointInit = {}): DOMPoint {
+		const { x = 0, y = 0 } = point;
+		return {
+			x: this.a * x + this.c * y + this.e,
+			y: this.b * x + this.d * y + this.f,
+			z: 0,
+			w: 1,
+		} as DOMPoint;
+	}
+}
+
+function recordValue(value: unknown): RecordedValue {
+	if (value === undefined || value === null) return null;
+	if (
+		typeof value === "number" || typeof value === "string" ||
+		typeof value === "boolean"
+	) {
+		return value;
+	}
+	if (Array.isArray(value)) return value.map(recordValue);
+	if (value instanceof RecordingGradient) {
+		return { gradient: value.kind, args: value.args, stops: value.stops };
+	}
+	if (value instanceof RecordingMatrix) {
+		const { a, b, c, d, e, f } = value;
+		return [a, b, c, d, e, f];
+	}
+	// Images, canvases and paths are recorded by their size, if they have one
+	const { width, height } = value as { width?: number; height?: number };
+	return typeof width === "number" && typeof height === "number"
+		? { width, height }
+		: String(value);
+}
+
+type ContextState = {
+	fillStyle: string | CanvasGradient | CanvasPattern;
+	strokeStyle: string | CanvasGradient | CanvasPattern;
+	lineWidth: number;
+	lineCap: CanvasLineCap;
+	lineJoin: CanvasLineJoin;
+	font: string;
+	textAlign: CanvasTextAlign;
+	textBaseline: CanvasTextBaseline;
+	globalAlpha: number;
+	globalCompositeOperation: GlobalCompositeOperation;
+	shadowColor: string;
+	shadowBlur: number;
+	shadowOffsetX: number;
+	shadowOffsetY: number;
+	filter: string;
+	transform: RecordingMatrix;
+};
+
+const defaultState: ContextState = {
+	fillStyle: "#000000",
+	strokeStyle: "#000000",
+	lineWidth: 1,
+	lineCap: "butt",
+	lineJoin: "miter",
+	font: "10px sans-serif",
+	textAlign: "start",
+	textBaseline: "alphabetic",
+	globalAlpha: 1,
+	globalCompositeOperation: "source-over",
+	shadowColor: "rgba(0, 0, 0, 0)",
+	shadowBlur: 0,
+	shadowOffsetX: 0,
+	shadowOffsetY: 0,
+	filter: "none",
+	transform: new RecordingMatrix(),
+};
+
+export type RecordingContextSettings = {
+	/** The size of the fake canvas, defaults to 0 by 0. */
+	size?: Point;
+	/**
+	 * Returns the width of text for `measureText()`. Defaults to 0, so that
+	 * recordings don't depend on font rendering.
+	 */
+	measureText?: (text: string, font: string) => number;
+};
+
+/**
+ * A fake `CanvasRenderingContext2D`, which doesn't draw anything, but records
+ * every method call and property change as a serializable command. It
+ * implements the parts of the canvas API used by the painters in this
+ * library, and is meant for testing painters without a real canvas. The
+ * transform is tracked like on a canvas, while reading pixels returns
+ * transparent ones.
+ *
+ * Painters take a `CanvasRenderingContext2D`, so pass `recorder.context`.
+ */
+export class RecordingContext {
+	readonly commands: RecordedCommand[] = [];
+	readonly canvas: { width: number; height: number };
+	private state: ContextState = { ...defaultState };
+	private readonly stack: ContextState[] = [];
+	private readonly measure: (text: string, font: string) => number;
+
+	constructor(settings: RecordingContextSettings = {}) {
+		const size = settings.size ?? { x: 0, y: 0 };
+		this.canvas = { width: size.x, height: size.y };
+		this.measure = settings.measureText ?? (() => 0);
+	}
+
+	/** This recorder, typed as a `CanvasRenderingContext2D`. */
+	get context(): CanvasRenderingContext2D {
+		return this as unknown as CanvasRenderingContext2D;
+	}
+
+	/** Removes all recorded commands, without resetting the state. */
+	clear(): void {
+		this.commands.length = 0;
+	}
+
+	private call(name: string, args: unknown[]): void {
+		this.commands.push({ type: "call", name, args: args.map(recordValue) });
+	}
+
+	private set<K extends keyof ContextState>(
+		name: K,
+		value: ContextState[K],
+	): void {
+		this.state[name] = value;
+		this.commands.push({ type: "set", name, value: recordValue(value) });
+	}
+
+	get fillStyle() {
+		return this.state.fillStyle;
+	}
+	set fillStyle(value) {
+		this.set("fillStyle", value);
+	}
+	get strokeStyle() {
+		return this.state.strokeStyle;
+	}
+	set strokeStyle(value) {
+		this.set("strokeStyle", value);
+	}
+	get lineWidth() {
+		return this.state.lineWidth;
+	}
+	set lineWidth(value) {
+		this.set("lineWidth", value);
+	}
+	get lineCap() {
+		return this.state.lineCap;
+	}
+	set lineCap(value) {
+		this.set("lineCap", value);
+	}
+	get lineJoin() {
+		return this.state.lineJoin;
+	}
+	set lineJoin(value) {
+		this.set("lineJoin", value);
+	}
+	get font() {
+		return this.state.font;
+	}
+	set font(value) {
+		this.set("font", value);
+	}
+	get textAlign() {
+		return this.state.textAlign;
+	}
+	set textAlign(value) {
+		this.set("textAlign", value);
+	}
+	get textBaseline() {
+		return this.state.textBaseline;
+	}
+	set textBaseline(value) {
+		this.set("textBaseline", value);
+	}
+	get globalAlpha() {
+		return this.state.globalAlpha;
+	}
+	set globalAlpha(value) {
+		this.set("globalAlpha", value);
+	}
+	get globalCompositeOperation() {
+		return this.state.globalCompositeOperation;
+	}
+	set globalCompositeOperation(value) {
+		this.set("globalCompositeOperation", value);
+	}
+	get shadowColor() {
+		return this.state.shadowColor;
+	}
+	set shadowColor(value) {
+		this.set("shadowColor", value);
+	}
+	get shadowBlur() {
+		return this.state.shadowBlur;
+	}
+	set shadowBlur(value) {
+		this.set("shadowBlur", value);
+	}
+	get shadowOffsetX() {
+		return this.state.shadowOffsetX;
+	}
+	set shadowOffsetX(value) {
+		this.set("shadowOffsetX", value);
+	}
+	get shadowOffsetY() {
+		return this.state.shadowOffsetY;
+	}
+	set shadowOffsetY(value) {
+		this.set("shadowOffsetY", value);
+	}
+	get filter() {
+		return this.state.filter;
+	}
+	set filter(value) {
+		this.set("filter", value);
+	}
+
+	save(): void {
+		this.stack.push({ ...this.state });
+		this.call("save", []);
+	}
+
+	restore(): void {
+		// Like the canvas, restoring without a saved state does nothing
+		const state = this.stack.pop();
+		if (state) this.state = state;
+		this.call("restore", []);
+	}
+
+	translate(x: number, y: number): void {
+		this.state.transform = this.state.transform.multiply({ e: x, f: y });
+		this.call("translate", [x, y]);
+	}
+
+	scale(x: number, y: number): void {
+		this.state.transform = this.state.transform.multiply({ a: x, d: y });
+		this.call("scale", [x, y]);
+	}
+
+	rotate(angle: number): void {
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		this.state.transform = this.state.transform.multiply({
+			a: cos,
+			b: sin,
+			c: -sin,
+			d: cos,
+		});
+		this.call("rotate", [angle]);
+	}
+
+	transform(
+		a: number,
+		b: number,
+		c: number,
+		d: number,
+		e: number,
+		f: number,
+	): void {
+		this.state.transform = this.state.transform.multiply({ a, b, c, d, e, f });
+		this.call("transform", [a, b, c, d, e, f]);
+	}
+
+	setTransform(
+		a: number | DOMMatrix2DInit = {},
+		b = 0,
+		c = 0,
+		d = 1,
+		e = 0,
+		f = 0,
+	): void {
+		// Matrices are recorded by their components, like the numeric overload
+		this.state.transform = typeof a === "number"
+			? new RecordingMatrix(a, b, c, d, e, f)
+			: new RecordingMatrix().multiply(a);
+		const { transform } = this.state;
+		this.call("setTransform", [
+			transform.a,
+			transform.b,
+			transform.c,
+			transform.d,
+			transform.e,
+			transform.f,
+		]);
+	}
+
+	resetTransform(): void {
+		this.state.transform = new RecordingMatrix();
+		this.call("resetTransform", []);
+	}
+
+	getTransform(): DOMMatrix {
+		return this.state.transform as unknown as DOMMatrix;
+	}
+
+	beginPath(): void {
+		this.call("beginPath", []);
+	}
+
+	closePath(): void {
+		this.call("closePath", []);
+	}
+
+	moveTo(x: number, y: number): void {
+		this.call("moveTo", [x, y]);
+	}
+
+	lineTo(x: number, y: number): void {
+		this.call("lineTo", [x, y]);
+	}
+
+	bezierCurveTo(...args: number[]): void {
+		this.call("bezierCurveTo", args);
+	}
+
+	quadraticCurveTo(...args: number[]): void {
+		this.call("quadraticCurveTo", args);
+	}
+
+	arc(...args: unknown[]): void {
+		this.call("arc", args);
+	}
+
+	ellipse(...args: unknown[]): void {
+		this.call("ellipse", args);
+	}
+
+	rect(x: number, y: number, width: number, height: number): void {
+		this.call("rect", [x, y, width, height]);
+	}
+
+	roundRect(...args: unknown[]): void {
+		this.call("roundRect", args);
+	}
+
+	fill(...args: unknown[]): void {
+		this.call("fill", args);
+	}
+
+	stroke(...args: unknown[]): void {
+		this.call("stroke", args);
+	}
+
+	clip(...args: unknown[]): void {
+		this.call("clip", args);
+	}
+
+	fillRect(x: number, y: number, width: number, height: number): void {
+		this.call("fillRect", [x, y, width, height]);
+	}
+
+	strokeRect(x: number, y: number, width: number, height: number): void {
+		this.call("strokeRect", [x, y, width, height]);
+	}
+
+	clearRect(x: number, y: number, width: number, height: number): void {
+		this.call("clearRect", [x, y, width, height]);
+	}
+
+	fillText(...args: unknown[]): void {
+		this.call("fillText", args);
+	}
+
+	strokeText(...args: unknown[]): void {
+		this.call("strokeText", args);
+	}
+
+	measureText(text: string): { width: number } {
+		return { width: this.measure(text, this.state.font) };
+	}
+
+	drawImage(...args: unknown[]): void {
+		this.call("drawImage", args);
+	}
+
+	createImageData(
+		width: number | { width: number; height: number },
+		height?: number,
+	): ImageData {
+		const size = typeof width === "number"
+			? { width, height: height ?? 0 }
+			: { width: width.width, height: width.height };
+		this.call("createImageData", [size.width, size.height]);
+		return blankImageData(size.width, size.height);
+	}
+
+	getImageData(x: number, y: number, width: number, height: number): ImageData {
+		this.call("getImageData", [x, y, width, height]);
+		return blankImageData(width, height);
+	}
+
+	putImageData(...args: unknown[]): void {
+		this.call("putImageData", args);
+	}
+
+	createLinearGradient(...args: number[]): CanvasGradient {
+		return new RecordingGradient("linear", args);
+	}
+
+	createRadialGradient(...args: number[]): CanvasGradient {
+		return new RecordingGradient("radial", args);
+	}
+
+	createConicGradient(...args: number[]): CanvasGradient {
+		return new RecordingGradient("conic", args);
+	}
+}
+
+function blankImageData(width: number, height: number): ImageData {
+	// ImageData isn't available in every runtime either
+	return {
+		width,
+		height,
+		data: new Uint8ClampedArray(width * height * 4),
+		colorSpace: "srgb",
+	} as ImageData;
+}
+
+/** Paints `painter` on a new `RecordingContext`, returning its commands. */
+export function recordPainter(
+	painter: Painter,
+	settings?: RecordingContextSettings,
+): RecordedCommand[] {
+	const recorder = new RecordingContext(settings);
+	painter(recorder.context);
+	return recorder.commands;
+}
+
+/** Records the painter `animation` evaluates to at `time`. */
+export function recordFrame(
+	animation: Animation<Painter>,
+	time: Duration,
+	settings?: RecordingContextSettings,
+): RecordedCommand[] {
+	return recordPainter(animation.at(time), settings);
+}
+
+function formatValue(value: RecordedValue): string {
+	// Rounding hides floating point noise, which would make snapshots brittle
+	if (typeof value === "number") return String(Math.round(value * 1e4) / 1e4);
+	if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value)
+			.map(([key, entry]) => `${key}: ${formatValue(entry)}`);
+		return `{ ${entries.join(", ")} }`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Formats commands as readable lines, like `fillRect(0, 0, 10, 10)` or
+ * `fillStyle = "red"`, indented between each `save()` and `restore()`.
+ */
+export function snapshotCommands(commands: RecordedCommand[]): string[] {
+	let depth = 0;
+	return commands.map((command) => {
+		if (command.type === "call" && command.name === "restore") {
+			depth = Math.max(0, depth - 1);
+		}
+		const indent = "  ".repeat(depth);
+		if (command.type === "set") {
+			return `${indent}${command.name} = ${formatValue(command.value)}`;
+		}
+		if (command.name === "save") depth++;
+		const args = command.args.map(formatValue).join(", ");
+		return `${indent}${command.name}(${args})`;
+	});
+}
+
+/**
+ * Compares the snapshots of two recordings, returning a line diff where
+ * removed lines start with `- `, added lines with `+ ` and unchanged lines
+ * with two spaces. Returns an empty array when the recordings are the same.
+ */
+export function diffCommands(
+	a: RecordedCommand[],
+	b: RecordedCommand[],
+): string[] {
+	const from = snapshotCommands(a);
+	const to = snapshotCommands(b);
+	// Longest common subsequence lengths, for every pair of suffixes
+	const lengths = Array.from(
+		{ length: from.length + 1 },
+		() => new Array<number>(to.length + 1).fill(0),
+	);
+	for (let i = from.length - 1; i >= 0; i--) {
+		for (let j = to.length - 1; j >= 0; j--) {
+			lengths[i][j] = from[i] === to[j]
+				? lengths[i + 1][j + 1] + 1
+				: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+	const diff: string[] = [];
+	let changed = false;
+	let i = 0;
+	let j = 0;
+	while (i < from.length || j < to.length) {
+		if (i < from.length && j < to.length && from[i] === to[j]) {
+			diff.push(`  ${from[i++]}`);
+			j++;
+		} else if (
+			j === to.length ||
+			(i < from.length && lengths[i + 1][j] >= lengths[i][j + 1])
+		) {
+			diff.push(`- ${from[i++]}`);
+			changed = true;
+		} else {
+			diff.push(`+ ${to[j++]}`);
+			changed = true;
+		}
+	}
+	return changed ? diff : [];
+}
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { RecordingContext, snapshotCommands } from "./recording.ts";
+
+Deno.test("tracks the transform through save and restore", () => {
+	const { context } = new RecordingContext();
+	context.save();
+	context.translate(10, 20);
+	context.scale(2, 3);
+	const { a, b, c, d, e, f } = context.getTransform();
+	assert.deepEqual([a, b, c, d, e, f], [2, 0, 0, 3, 10, 20]);
+	const point = context.getTransform().inverse()
+		.transformPoint({ x: 12, y: 26 });
+	assert.deepEqual([point.x, point.y].map(Math.round), [1, 2]);
+	context.restore();
+	assert.ok(context.getTransform().isIdentity);
+});
+
+Deno.test("records matrices passed to setTransform by their components", () => {
+	const recorder = new RecordingContext();
+	recorder.context.setTransform({ a: 2, d: 2, e: 5 });
+	assert.deepEqual(snapshotCommands(recorder.commands), [
+		"setTransform(2, 0, 0, 2, 5, 0)",
+	]);
+});
+
+Deno.test("records pixel access and returns transparent pixels", () => {
+	const recorder = new RecordingContext({ size: { x: 2, y: 1 } });
+	const image = recorder.context.getImageData(0, 0, 2, 1);
+	assert.deepEqual([image.width, image.height], [2, 1]);
+	assert.deepEqual(image.data, new Uint8ClampedArray(8));
+	recorder.context.putImageData(recorder.context.createImageData(2, 1), 0, 0);
+	assert.deepEqual(snapshotCommands(recorder.commands), [
+		"getImageData(0, 0, 2, 1)",
+		"createImageData(2, 1)",
+		"putImageData({ width: 2, height: 1 }, 0, 0)",
+	]);
+});
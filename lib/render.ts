@@ -0,0 +1,173 @@
+import { Animation, Duration, Painter } from "./core.ts";
+import { Point } from "./std.ts";
+
+/** A frame which has been painted and is ready to be encoded. */
+export type RenderedFrame = {
+	/** The position of the frame in the output, starting from zero. */
+	index: number;
+	/** The time the animation was evaluated at. */
+	time: Duration;
+	context: CanvasRenderingContext2D;
+	size: Point;
+	/**
+	 * True when the animation is the same as in the previous frame, so the
+	 * context wasn't repainted and encoders can reuse their previous output.
+	 */
+	isDuplicate: boolean;
+};
+
+/** Receives the frames produced by `renderAnimation`, in order. */
+export type Encoder = {
+	start?: (size: Point) => void | Promise<void>;
+	writeFrame: (frame: RenderedFrame) => void | Promise<void>;
+	finish?: () => void | Promise<void>;
+	/** Called instead of `finish` when rendering fails or is cancelled. */
+	abort?: (reason: unknown) => void | Promise<void>;
+};
+
+export type RenderProgress = {
+	/** Number of frames written so far. */
+	rendered: number;
+	total: number;
+	time: Duration;
+};
+
+export type RenderSettings = {
+	animation: Animation<Painter>;
+	createContext: (size: Point) => CanvasRenderingContext2D;
+	size: Point;
+	encoder: Encoder;
+	/** The first frame to render, defaults to zero. */
+	from?: Duration;
+	/** The last frame to render (inclusive), defaults to the duration. */
+	to?: Duration;
+	onProgress?: (progress: RenderProgress) => void;
+	signal?: AbortSignal;
+};
+
+export type RenderResult = {
+	frames: number;
+	/** Number of frames which were reused instead of being repainted. */
+	duplicates: number;
+};
+
+/**
+ * Renders every frame of `animation` in the given range, and writes them to
+ * the `encoder`. Frames which are the same as the previous one (according to
+ * `Animation.isSameAt`) are not repainted.
+ */
+export async function renderAnimation(
+	settings: RenderSettings,
+): Promise<RenderResult> {
+	const {
+		animation,
+		size,
+		encoder,
+		from = Duration.zero,
+		to = animation.duration,
+		onProgress,
+		signal,
+	} = settings;
+	if (to.isLessThan(from)) {
+		throw new RangeError(
+			`Invalid frame range [${from.frame}, ${to.frame}]`,
+		);
+	}
+	const context = settings.createContext(size);
+	const total = Math.floor(to.subtract(from).frame) + 1;
+	let duplicates = 0;
+	let previous: Duration | undefined;
+
+	try {
+		signal?.throwIfAborted();
+		await encoder.start?.(size);
+		for (let index = 0; index < total; index++) {
+			signal?.throwIfAborted();
+			const time = from.add(new Duration(index));
+			const isDuplicate = previous !== undefined &&
+				animation.isSameAt(previous, time);
+			if (isDuplicate) {
+				duplicates++;
+			} else {
+				context.clearRect(0, 0, size.x, size.y);
+				animation.at(time)(context);
+			}
+			previous = time;
+			await encoder.writeFrame({ index, time, context, size, isDuplicate });
+			onProgress?.({ rendered: index + 1, total, time });
+		}
+	} catch (error) {
+		await encoder.abort?.(error);
+		throw error;
+	}
+	await encoder.finish?.();
+	return { frames: total, duplicates };
+}
+
+function readPixels(frame: RenderedFrame): Uint8ClampedArray {
+	return frame.context.getImageData(0, 0, frame.size.x, frame.size.y).data;
+}
+
+/**
+ * Creates an `Encoder` which writes the raw RGBA pixels of each frame, for
+ * example to the stdin of an ffmpeg process using `-f rawvideo -pix_fmt rgba`.
+ */
+export function createRawRgbaEncoder(
+	write: (chunk: Uint8Array) => void | Promise<void>,
+	close?: () => void | Promise<void>,
+): Encoder {
+	let last: Uint8Array | undefined;
+	return {
+		async writeFrame(frame) {
+			if (!frame.isDuplicate || !last) {
+				const pixels = readPixels(frame);
+				last = new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.length);
+			}
+			await write(last);
+		},
+		finish: close,
+		abort: close,
+	};
+}
+
+/**
+ * Creates an `Encoder` which encodes each frame to a PNG image using
+ * `encodePng`, and passes it to `writeFile` with its index. Duplicate frames
+ * reuse the previously encoded image.
+ */
+export function createPngSequenceEncoder(
+	encodePng: (
+		context: CanvasRenderingContext2D,
+	) => Uint8Array | Promise<Uint8Array>,
+	writeFile: (index: number, data: Uint8Array) => void | Promise<void>,
+): Encoder {
+	let last: Uint8Array | undefined;
+	return {
+		async writeFrame(frame) {
+			if (!frame.isDuplicate || !last) {
+				last = await encodePng(frame.context);
+			}
+			await writeFile(frame.index, last);
+		},
+	};
+}
+
+export type MemoryEncoder = Encoder & {
+	/** The RGBA pixels of each frame written so far. */
+	readonly frames: Uint8ClampedArray[];
+};
+
+/**
+ * Creates an `Encoder` which keeps the RGBA pixels of every frame in memory,
+ * mostly useful for tests. Duplicate frames share the same array.
+ */
+export function createMemoryEncoder(): MemoryEncoder {
+	const frames: Uint8ClampedArray[] = [];
+	return {
+		frames,
+		writeFrame(frame) {
+			const last = frames.at(-1);
+			frames.push(frame.isDuplicate && last ? last : readPixels(frame));
+		},
+	};
+}
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import { RecordingContext } from "./recording.ts";
+import {
+	createMemoryEncoder,
+	createPngSequenceEncoder,
+	createRawRgbaEncoder,
+	Encoder,
+	renderAnimation,
+	RenderProgress,
+} from "./render.ts";
+import { createRectPainter, Point, tweenNumber } from "./std.ts";
+
+const frames = (frame: number) => new Duration(frame);
+const size = { x: 4, y: 2 };
+
+/** Moves a square for 4 frames, then holds it still for 4 frames. */
+const animation = tweenNumber({ from: 0, to: 4, duration: frames(4) })
+	.extend({ before: Duration.zero, after: frames(4) })
+	.derive((x) =>
+		createRectPainter({
+			position: { x, y: 0 },
+			size: { x: 1, y: 1 },
+			fillStyle: "red",
+		})
+	);
+
+function createContexts() {
+	const recorders: RecordingContext[] = [];
+	const createContext = (size: Point) => {
+		const recorder = new RecordingContext({ size });
+		recorders.push(recorder);
+		return recorder.context;
+	};
+	return { recorders, createContext };
+}
+
+Deno.test("renders every frame and skips repainting duplicates", async () => {
+	const { recorders, createContext } = createContexts();
+	const encoder = createMemoryEncoder();
+	const progress: RenderProgress[] = [];
+	const result = await renderAnimation({
+		animation,
+		createContext,
+		size,
+		encoder,
+		onProgress: (update) => progress.push(update),
+	});
+	assert.deepEqual(result, { frames: 9, duplicates: 4 });
+	assert.equal(encoder.frames.length, 9);
+	assert.equal(encoder.frames[0].length, size.x * size.y * 4);
+	assert.equal(encoder.frames[5], encoder.frames[4]);
+	assert.notEqual(encoder.frames[4], encoder.frames[3]);
+	assert.equal(
+		recorders[0].commands.filter((command) =>
+			command.type === "call" && command.name === "fillRect"
+		).length,
+		5,
+	);
+	assert.deepEqual(progress.at(-1), {
+		rendered: 9,
+		total: 9,
+		time: frames(8),
+	});
+});
+
+Deno.test("renders a range of frames", async () => {
+	const { createContext } = createContexts();
+	const result = await renderAnimation({
+		animation,
+		createContext,
+		size,
+		encoder: createMemoryEncoder(),
+		from: frames(2),
+		to: frames(3),
+	});
+	assert.deepEqual(result, { frames: 2, duplicates: 0 });
+	await assert.rejects(
+		renderAnimation({
+			animation,
+			createContext,
+			size,
+			encoder: createMemoryEncoder(),
+			from: frames(3),
+			to: frames(2),
+		}),
+		RangeError,
+	);
+});
+
+Deno.test("aborts the encoder when rendering is cancelled", async () => {
+	const { createContext } = createContexts();
+	const controller = new AbortController();
+	const calls: string[] = [];
+	const encoder: Encoder = {
+		start: () => void calls.push("start"),
+		writeFrame: ({ index }) => {
+			calls.push(`frame ${index}`);
+			if (index === 1) controller.abort(new Error("Cancelled"));
+		},
+		finish: () => void calls.push("finish"),
+		abort: (reason) => void calls.push(`abort ${(reason as Error).message}`),
+	};
+	await assert.rejects(
+		renderAnimation({
+			animation,
+			createContext,
+			size,
+			encoder,
+			signal: controller.signal,
+		}),
+		/Cancelled/,
+	);
+	assert.deepEqual(calls, ["start", "frame 0", "frame 1", "abort Cancelled"]);
+});
+
+Deno.test("encoders reuse their output for duplicate frames", async () => {
+	const { createContext } = createContexts();
+	const chunks: Uint8Array[] = [];
+	let closed = 0;
+	await renderAnimation({
+		animation,
+		createContext,
+		size,
+		encoder: createRawRgbaEncoder((chunk) => {
+			chunks.push(chunk);
+		}, () => {
+			closed++;
+		}),
+	});
+	assert.equal(chunks.length, 9);
+	assert.equal(chunks[8], chunks[4]);
+	assert.equal(closed, 1);
+
+	const files = new Map<number, Uint8Array>();
+	let encoded = 0;
+	await renderAnimation({
+		animation,
+		createContext,
+		size,
+		encoder: createPngSequenceEncoder(
+			() => new Uint8Array([encoded++]),
+			(index, data) => {
+				files.set(index, data);
+			},
+		),
+	});
+	assert.equal(files.size, 9);
+	assert.equal(encoded, 5);
+	assert.deepEqual(files.get(8), new Uint8Array([4]));
+});
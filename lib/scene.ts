@@ -0,0 +1,303 @@
+import { Animation, Painter } from "./core.ts";
+import {
+	Encoder,
+	renderAnimation,
+	RenderProgress,
+	RenderResult,
+} from "./render.ts";
+import { Point } from "./std.ts";
+
+/** Describes a single parameter of a scene, see `defineScene`. */
+export type ParamSpec =
+	| {
+		type: "string";
+		default?: string;
+		/** When given, the value has to be one of these. */
+		options?: readonly string[];
+	}
+	| {
+		type: "number";
+		default?: number;
+		min?: number;
+		max?: number;
+		integer?: boolean;
+	}
+	| { type: "boolean"; default?: boolean };
+
+export type ParamSchema = Record<string, ParamSpec>;
+
+/** The type of the value of a parameter. */
+export type ParamValue<P extends ParamSpec> = P extends { type: "number" }
+	? number
+	: P extends { type: "boolean" } ? boolean
+	: P extends { options: readonly (infer O)[] } ? O
+	: string;
+
+/** The validated parameters of a scene, with all defaults applied. */
+export type SceneParams<S extends ParamSchema> = {
+	[K in keyof S]: ParamValue<S[K]>;
+};
+
+type OptionalKeys<S extends ParamSchema> = {
+	[K in keyof S]: S[K] extends { default: unknown } ? K : never;
+}[keyof S];
+
+/** The parameters passed to a scene, where those with defaults are optional. */
+export type SceneInput<S extends ParamSchema> =
+	& { [K in Exclude<keyof S, OptionalKeys<S>>]: ParamValue<S[K]> }
+	& { [K in OptionalKeys<S>]?: ParamValue<S[K]> };
+
+/** What a scene is built with, besides its parameters. */
+export type SceneContext = {
+	/** A context for measuring text, which shouldn't be painted on. */
+	context: CanvasRenderingContext2D;
+	size: Point;
+};
+
+export type SceneDefinition<S extends ParamSchema> = {
+	params: S;
+	build: (params: SceneParams<S>, ctx: SceneContext) => Animation<Painter>;
+};
+
+export type Scene<S extends ParamSchema> = {
+	readonly params: S;
+	/**
+	 * Validates untyped parameters, like a row of a JSON or CSV file, and
+	 * applies the defaults. Strings are converted to numbers and booleans, and
+	 * empty strings count as missing. Keys which aren't in the schema are
+	 * ignored.
+	 *
+	 * @throws {RangeError} Listing every invalid or missing parameter.
+	 */
+	parse: (input: Record<string, unknown>) => SceneParams<S>;
+	/** Validates the parameters and builds the animation of the scene. */
+	build: (params: SceneInput<S>, ctx: SceneContext) => Animation<Painter>;
+};
+
+const booleans: Record<string, boolean> = {
+	true: true,
+	false: false,
+	yes: true,
+	no: false,
+	"1": true,
+	"0": false,
+};
+
+/** Returns the parsed value, or a description of what is wrong with it. */
+function parseParam(
+	spec: ParamSpec,
+	value: unknown,
+): { value: unknown } | { error: string } {
+	switch (spec.type) {
+		case "string": {
+			if (typeof value !== "string") return { error: "must be a string" };
+			if (spec.options && !spec.options.includes(value)) {
+				const options = spec.options.map((option) => `"${option}"`);
+				return { error: `must be one of ${options.join(", ")}` };
+			}
+			return { value };
+		}
+		case "number": {
+			const number = typeof value === "string" ? Number(value.trim()) : value;
+			if (typeof number !== "number" || !Number.isFinite(number)) {
+				return { error: "must be a number" };
+			}
+			if (spec.integer && !Number.isInteger(number)) {
+				return { error: "must be an integer" };
+			}
+			if (spec.min !== undefined && number < spec.min) {
+				return { error: `must be at least ${spec.min}` };
+			}
+			if (spec.max !== undefined && number > spec.max) {
+				return { error: `must be at most ${spec.max}` };
+			}
+			return { value: number };
+		}
+		case "boolean": {
+			const boolean = typeof value === "string"
+				? booleans[value.trim().toLowerCase()]
+				: value;
+			if (typeof boolean !== "boolean") return { error: "must be a boolean" };
+			return { value: boolean };
+		}
+	}
+}
+
+/**
+ * Validates `input` against `schema`, see `Scene.parse`.
+ *
+ * @throws {RangeError} Listing every invalid or missing parameter.
+ */
+export function parseParams<S extends ParamSchema>(
+	schema: S,
+	input: Record<string, unknown>,
+): SceneParams<S> {
+	const params: Record<string, unknown> = {};
+	const errors: string[] = [];
+	for (const [name, spec] of Object.entries(schema)) {
+		const value = input[name];
+		if (value === undefined || value === null || value === "") {
+			if (spec.default === undefined) errors.push(`"${name}" is required`);
+			params[name] = spec.default;
+			continue;
+		}
+		const result = parseParam(spec, value);
+		if ("error" in result) {
+			errors.push(`"${name}" ${result.error}, got ${JSON.stringify(value)}`);
+		} else {
+			params[name] = result.value;
+		}
+	}
+	if (errors.length) {
+		throw new RangeError(`Invalid scene params: ${errors.join("; ")}`);
+	}
+	return params as SceneParams<S>;
+}
+
+/**
+ * Defines a scene template, whose animation is built from typed parameters.
+ * The same scene can be rendered with many sets of parameters, for example
+ * with `renderBatch`.
+ *
+ * ```ts
+ * const scene = defineScene({
+ *   params: {
+ *     name: { type: "string" },
+ *     color: { type: "string", default: "white" },
+ *   },
+ *   build: ({ name, color }, { size }) => ...,
+ * });
+ * ```
+ */
+export function defineScene<const S extends ParamSchema>(
+	definition: SceneDefinition<S>,
+): Scene<S> {
+	const parse = (input: Record<string, unknown>) =>
+		parseParams(definition.params, input);
+	return {
+		params: definition.params,
+		parse,
+		build: (params, ctx) => definition.build(parse(params), ctx),
+	};
+}
+
+/**
+ * Parses CSV text (as described by RFC 4180) into one record per row, using
+ * the first row as the header. Fields can be quoted to contain commas, line
+ * breaks and (doubled) quotes.
+ *
+ * @throws {SyntaxError} When a quoted field isn't closed.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let i = text.startsWith("\uFEFF") ? 1 : 0;
+	while (i < text.length) {
+		const char = text[i];
+		if (char === '"' && field === "") {
+			// Doubled quotes inside a quoted field stand for a single quote
+			let close = text.indexOf('"', i + 1);
+			while (close !== -1 && text[close + 1] === '"') {
+				close = text.indexOf('"', close + 2);
+			}
+			if (close === -1) throw new SyntaxError("Unclosed quote in CSV");
+			field = text.slice(i + 1, close).replaceAll('""', '"');
+			i = close + 1;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+			i++;
+		} else if (char === "\n" || char === "\r") {
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+			i += char === "\r" && text[i + 1] === "\n" ? 2 : 1;
+		} else {
+			field += char;
+			i++;
+		}
+	}
+	if (field || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+	const [header = [], ...records] = rows.filter((row) =>
+		row.some((field) => field !== "")
+	);
+	return records.map((record) =>
+		Object.fromEntries(header.map((name, i) => [name.trim(), record[i] ?? ""]))
+	);
+}
+
+/** A single variant of a batch, see `renderBatch`. */
+export type BatchItem<S extends ParamSchema> = {
+	index: number;
+	/** The row from the data, including keys which aren't parameters. */
+	row: Record<string, unknown>;
+	params: SceneParams<S>;
+};
+
+export type BatchProgress<S extends ParamSchema> = RenderProgress & {
+	item: BatchItem<S>;
+	/** Number of variants before this one. */
+	completed: number;
+	items: number;
+};
+
+export type BatchSettings<S extends ParamSchema> = {
+	scene: Scene<S>;
+	/** One set of parameters per variant, like the rows of a JSON or CSV file. */
+	rows: Record<string, unknown>[];
+	createContext: (size: Point) => CanvasRenderingContext2D;
+	size: Point;
+	/** Creates the encoder for each variant, which usually writes a file. */
+	createEncoder: (item: BatchItem<S>) => Encoder | Promise<Encoder>;
+	onProgress?: (progress: BatchProgress<S>) => void;
+	signal?: AbortSignal;
+};
+
+/**
+ * Renders one variant of a scene for each row, one after another. All rows
+ * are validated before anything is rendered, so a mistake in the data doesn't
+ * leave a batch half done.
+ *
+ * @throws {RangeError} When a row has invalid parameters, with its index.
+ */
+export async function renderBatch<S extends ParamSchema>(
+	settings: BatchSettings<S>,
+): Promise<RenderResult[]> {
+	const { scene, rows, size, createContext, onProgress, signal } = settings;
+	const items = rows.map((row, index): BatchItem<S> => {
+		try {
+			return { index, row, params: scene.parse(row) };
+		} catch (error) {
+			throw new RangeError(
+				`Row ${index}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	});
+	const ctx: SceneContext = { context: createContext(size), size };
+	const results: RenderResult[] = [];
+	for (const item of items) {
+		signal?.throwIfAborted();
+		results.push(
+			await renderAnimation({
+				animation: scene.build(item.params as SceneInput<S>, ctx),
+				createContext,
+				size,
+				encoder: await settings.createEncoder(item),
+				onProgress: (progress) =>
+					onProgress?.({
+						...progress,
+						item,
+						completed: item.index,
+						items: items.length,
+					}),
+				signal,
+			}),
+		);
+	}
+	return results;
+}
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import {
+	recordFrame,
+	RecordingContext,
+	snapshotCommands,
+} from "./recording.ts";
+import { createMemoryEncoder } from "./render.ts";
+import { defineScene, parseCsv, parseParams, renderBatch } from "./scene.ts";
+import { createRectPainter, Point, tweenNumber } from "./std.ts";
+
+Deno.test("parses CSV rows into records by header", () => {
+	assert.deepEqual(parseCsv("\uFEFFname, age\r\nAda,36\r\n\r\nAlan,41\n"), [
+		{ name: "Ada", age: "36" },
+		{ name: "Alan", age: "41" },
+	]);
+});
+
+Deno.test("parses quoted CSV fields", () => {
+	assert.deepEqual(
+		parseCsv('title,quote\n"Hello, world","Say ""hi""\nthen go"'),
+		[
+			{ title: "Hello, world", quote: 'Say "hi"\nthen go' },
+		],
+	);
+});
+
+Deno.test("fills missing CSV fields with empty strings", () => {
+	assert.deepEqual(parseCsv("a,b,c\n1\n,2,"), [
+		{ a: "1", b: "", c: "" },
+		{ a: "", b: "2", c: "" },
+	]);
+	assert.deepEqual(parseCsv(""), []);
+});
+
+Deno.test("rejects unclosed CSV quotes", () => {
+	assert.throws(() => parseCsv('a\n"open'), SyntaxError);
+});
+
+const schema = {
+	name: { type: "string" },
+	align: { type: "string", options: ["left", "right"], default: "left" },
+	count: { type: "number", min: 1, max: 10, integer: true, default: 1 },
+	loop: { type: "boolean", default: false },
+} as const;
+
+Deno.test("converts params from strings and applies defaults", () => {
+	assert.deepEqual(
+		parseParams(schema, { name: "Ada", count: " 3 ", loop: "Yes", extra: 1 }),
+		{ name: "Ada", align: "left", count: 3, loop: true },
+	);
+	assert.deepEqual(
+		parseParams(schema, { name: "Alan", align: "right", count: "", loop: "0" }),
+		{ name: "Alan", align: "right", count: 1, loop: false },
+	);
+});
+
+Deno.test("lists every invalid param", () => {
+	assert.throws(
+		() => parseParams(schema, { align: "center", count: "2.5", loop: "maybe" }),
+		{
+			name: "RangeError",
+			message: 'Invalid scene params: "name" is required; ' +
+				'"align" must be one of "left", "right", got "center"; ' +
+				'"count" must be an integer, got "2.5"; ' +
+				'"loop" must be a boolean, got "maybe"',
+		},
+	);
+	assert.throws(
+		() => parseParams(schema, { name: 1, count: 11 }),
+		/"name" must be a string, got 1; "count" must be at most 10, got 11/,
+	);
+});
+
+const frames = (frame: number) => new Duration(frame);
+const size = { x: 4, y: 2 };
+const createContext = (size: Point) => new RecordingContext({ size }).context;
+
+/** Grows a bar to `width` over 2 frames. */
+const bar = defineScene({
+	params: {
+		width: { type: "number", min: 0 },
+		color: { type: "string", default: "red" },
+	},
+	build: ({ width, color }) =>
+		tweenNumber({ from: 0, to: width, duration: frames(1) }).derive((x) =>
+			createRectPainter({
+				position: { x: 0, y: 0 },
+				size: { x, y: 1 },
+				fillStyle: color,
+			})
+		),
+});
+
+Deno.test("builds scenes with the defaults applied", () => {
+	const animation = bar.build({ width: 4 }, {
+		context: createContext(size),
+		size,
+	});
+	assert.deepEqual(snapshotCommands(recordFrame(animation, frames(1))), [
+		'fillStyle = "red"',
+		"fillRect(0, 0, 4, 1)",
+	]);
+	assert.throws(
+		() => bar.build({ width: -1 }, { context: createContext(size), size }),
+		RangeError,
+	);
+});
+
+Deno.test("validates every row before rendering a batch", async () => {
+	let encoders = 0;
+	await assert.rejects(
+		renderBatch({
+			scene: bar,
+			rows: [{ width: "2" }, { width: "wide" }],
+			createContext,
+			size,
+			createEncoder: () => {
+				encoders++;
+				return createMemoryEncoder();
+			},
+		}),
+		{ name: "RangeError", message: /^Row 1: .*"width" must be a number/ },
+	);
+	assert.equal(encoders, 0);
+});
+
+Deno.test("renders one variant per row and reports its progress", async () => {
+	const variants: string[] = [];
+	const progress: string[] = [];
+	const results = await renderBatch({
+		scene: bar,
+		rows: [{ name: "a", width: 2 }, { name: "b", width: "4", color: "blue" }],
+		createContext,
+		size,
+		createEncoder: ({ index, row, params }) => {
+			variants.push(`${index} ${row.name}: ${params.width} ${params.color}`);
+			return createMemoryEncoder();
+		},
+		onProgress: ({ rendered, total, completed, items }) =>
+			progress.push(`${completed}/${items}: ${rendered}/${total}`),
+	});
+	assert.deepEqual(results, [
+		{ frames: 2, duplicates: 0 },
+		{ frames: 2, duplicates: 0 },
+	]);
+	assert.deepEqual(variants, ["0 a: 2 red", "1 b: 4 blue"]);
+	assert.deepEqual(progress, ["0/2: 1/2", "0/2: 2/2", "1/2: 1/2", "1/2: 2/2"]);
+});
+
+Deno.test("stops a batch when it is aborted", async () => {
+	const controller = new AbortController();
+	const calls: string[] = [];
+	await assert.rejects(
+		renderBatch({
+			scene: bar,
+			rows: [{ width: 2 }, { width: 3 }],
+			createContext,
+			size,
+			createEncoder: ({ index }) => ({
+				writeFrame: (frame) => {
+					calls.push(`${index}: frame ${frame.index}`);
+					if (frame.index === 0) controller.abort(new Error("Cancelled"));
+				},
+				abort: () => void calls.push(`${index}: abort`),
+			}),
+			signal: controller.signal,
+		}),
+		/Cancelled/,
+	);
+	assert.deepEqual(calls, ["0: frame 0", "0: abort"]);
+});
@@ -0,0 +1,199 @@
+import {
+	clampTime,
+	Duration,
+	TimeTransformStrategy,
+	TransformingAnimation,
+} from "./core.ts";
+import { Point } from "./std.ts";
+
+export type SpringPhysics = {
+	/** Defaults to 1. */
+	mass?: number;
+	/** Defaults to 100. */
+	stiffness?: number;
+	/** Defaults to 10. */
+	damping?: number;
+	/**
+	 * The spring is considered settled once it's closer than this to its
+	 * target. Defaults to 0.01.
+	 */
+	restDelta?: number;
+	/**
+	 * The spring is considered settled once its speed (units per second) is
+	 * below this. Defaults to 0.1.
+	 */
+	restSpeed?: number;
+	/** The longest the spring can take to settle. Defaults to 10 seconds. */
+	maxDuration?: Duration;
+};
+
+export type SpringSettings<T> = SpringPhysics & {
+	from: T;
+	to: T;
+	/** Initial velocity in units per second, defaults to zero. */
+	velocity?: T;
+	/** Frames per second, used to convert between frames and physical time. */
+	frameRate: number;
+	strategy?: TimeTransformStrategy;
+};
+
+/** Represents a function which creates new spring animations of type `T`. */
+export type SpringCreator<T> = (
+	settings: SpringSettings<T>,
+) => TransformingAnimation<T>;
+
+/**
+ * Returns the displacement from the target and the velocity of a damped
+ * spring at `t` seconds, given its initial displacement and velocity.
+ */
+type SpringSolution = (t: number) => [number, number];
+
+function solveSpring(
+	mass: number,
+	stiffness: number,
+	damping: number,
+	x0: number,
+	v0: number,
+): SpringSolution {
+	const w0 = Math.sqrt(stiffness / mass);
+	const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+
+	// Close to critical damping, the other solutions lose their precision
+	if (Math.abs(zeta - 1) < 1e-6) {
+		const b = v0 + w0 * x0;
+		return (t) => {
+			const envelope = Math.exp(-w0 * t);
+			return [
+				envelope * (x0 + b * t),
+				envelope * (b - w0 * (x0 + b * t)),
+			];
+		};
+	}
+
+	if (zeta < 1) {
+		const wd = w0 * Math.sqrt(1 - zeta * zeta);
+		const a = x0;
+		const b = (v0 + zeta * w0 * x0) / wd;
+		return (t) => {
+			const envelope = Math.exp(-zeta * w0 * t);
+			const cos = Math.cos(wd * t);
+			const sin = Math.sin(wd * t);
+			return [
+				envelope * (a * cos + b * sin),
+				envelope * ((b * wd - zeta * w0 * a) * cos -
+					(a * wd + zeta * w0 * b) * sin),
+			];
+		};
+	}
+
+	const root = w0 * Math.sqrt(zeta * zeta - 1);
+	const r1 = -zeta * w0 + root;
+	const r2 = -zeta * w0 - root;
+	const c2 = (v0 - r1 * x0) / (r2 - r1);
+	const c1 = x0 - c2;
+	return (t) => {
+		const e1 = c1 * Math.exp(r1 * t);
+		const e2 = c2 * Math.exp(r2 * t);
+		return [e1 + e2, r1 * e1 + r2 * e2];
+	};
+}
+
+class Spring<T> extends TransformingAnimation<T> {
+	constructor(
+		private readonly solutions: SpringSolution[],
+		private readonly target: number[],
+		private readonly fromComponents: (components: number[]) => T,
+		private readonly frameRate: number,
+		duration: Duration,
+		strategy: TimeTransformStrategy,
+	) {
+		super(duration, strategy);
+	}
+
+	atTransformed(time: Duration): T {
+		if (!time.isLessThan(this.duration)) {
+			return this.fromComponents(this.target);
+		}
+		const seconds = time.frame / this.frameRate;
+		return this.fromComponents(
+			this.solutions.map((solve, i) => this.target[i] + solve(seconds)[0]),
+		);
+	}
+
+	override isSameAtTransformed(a: Duration, b: Duration): boolean {
+		return !a.isLessThan(this.duration) && !b.isLessThan(this.duration);
+	}
+}
+
+function settleDuration(
+	solutions: SpringSolution[],
+	frameRate: number,
+	restDelta: number,
+	restSpeed: number,
+	maxDuration: Duration,
+): Duration {
+	const isSettled = (frame: number) =>
+		solutions.every((solve) => {
+			const [displacement, velocity] = solve(frame / frameRate);
+			return Math.abs(displacement) < restDelta &&
+				Math.abs(velocity) < restSpeed;
+		});
+	for (let frame = 0; frame < maxDuration.frame; frame++) {
+		if (isSettled(frame)) return new Duration(frame);
+	}
+	return maxDuration;
+}
+
+/**
+ * Creates a `SpringCreator` for values which can be split into numeric
+ * components, each of which is simulated as an independent spring. The
+ * animation's duration is the time it takes for every component to settle.
+ */
+export function defineSpring<T>(
+	toComponents: (value: T) => number[],
+	fromComponents: (components: number[]) => T,
+): SpringCreator<T> {
+	return (settings) => {
+		const {
+			mass = 1,
+			stiffness = 100,
+			damping = 10,
+			restDelta = 0.01,
+			restSpeed = 0.1,
+			frameRate,
+		} = settings;
+		if (mass <= 0 || stiffness <= 0 || damping < 0) {
+			throw new RangeError(
+				"Spring mass and stiffness must be positive, damping can't be negative",
+			);
+		}
+		const maxDuration = settings.maxDuration ??
+			Duration.fromSeconds(10, frameRate);
+		const from = toComponents(settings.from);
+		const target = toComponents(settings.to);
+		const velocity = settings.velocity
+			? toComponents(settings.velocity)
+			: target.map(() => 0);
+		const solutions = target.map((to, i) =>
+			solveSpring(mass, stiffness, damping, from[i] - to, velocity[i])
+		);
+		return new Spring(
+			solutions,
+			target,
+			fromComponents,
+			frameRate,
+			settleDuration(solutions, frameRate, restDelta, restSpeed, maxDuration),
+			settings.strategy ?? clampTime,
+		);
+	};
+}
+
+export const springNumber: SpringCreator<number> = defineSpring(
+	(value) => [value],
+	([value]) => value,
+);
+
+export const springPoint: SpringCreator<Point> = defineSpring(
+	(point) => [point.x, point.y],
+	([x, y]) => ({ x, y }),
+);
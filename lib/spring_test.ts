@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { Duration } from "./core.ts";
+import { springNumber, springPoint } from "./spring.ts";
+
+const frames = (frame: number) => new Duration(frame);
+
+Deno.test("springs settle on their target", () => {
+	const spring = springNumber({ from: 0, to: 100, frameRate: 60 });
+	const { frame } = spring.duration;
+	assert.ok(frame > 0 && frame < 600);
+	assert.equal(spring.at(frames(0)), 0);
+	assert.equal(spring.at(spring.duration), 100);
+	assert.ok(Math.abs(spring.at(frames(frame - 1)) - 100) < 0.01);
+	assert.ok(spring.isSameAt(spring.duration, frames(frame + 10)));
+	assert.equal(spring.isSameAt(frames(0), frames(1)), false);
+});
+
+Deno.test("underdamped springs overshoot, critically damped ones don't", () => {
+	const values = (damping: number) => {
+		const spring = springNumber({ from: 0, to: 1, damping, frameRate: 60 });
+		return Array.from(
+			{ length: spring.duration.frame + 1 },
+			(_, frame) => spring.at(frames(frame)),
+		);
+	};
+	assert.ok(Math.max(...values(5)) > 1.1);
+	// With the default mass and stiffness, a damping of 20 is critical
+	const critical = values(20);
+	assert.ok(Math.max(...critical) <= 1);
+	assert.ok(critical.every((value, i) => i === 0 || value >= critical[i - 1]));
+	assert.ok(Math.max(...values(40)) <= 1);
+	// Springs which are almost critically damped are solved like critical ones
+	assert.deepEqual(values(20 - 1e-9), critical);
+	assert.deepEqual(values(20 + 1e-9), critical);
+});
+
+Deno.test("spring velocity moves away from the start", () => {
+	const spring = springNumber({
+		from: 0,
+		to: 0,
+		velocity: -100,
+		frameRate: 60,
+	});
+	assert.ok(spring.at(frames(2)) < 0);
+	assert.ok(spring.duration.frame > 0);
+});
+
+Deno.test("springs animate every component of points", () => {
+	const spring = springPoint({
+		from: { x: 0, y: 10 },
+		to: { x: 10, y: 10 },
+		frameRate: 30,
+	});
+	assert.deepEqual(spring.at(frames(100)), { x: 10, y: 10 });
+	const middle = spring.at(frames(3));
+	assert.ok(middle.x > 0);
+	assert.equal(middle.y, 10);
+});
+
+Deno.test("springs are limited to their maximum duration", () => {
+	const spring = springNumber({
+		from: 0,
+		to: 1,
+		damping: 0,
+		maxDuration: frames(30),
+		frameRate: 60,
+	});
+	assert.equal(spring.duration.frame, 30);
+	assert.equal(spring.at(frames(30)), 1);
+	assert.throws(
+		() => springNumber({ from: 0, to: 1, mass: 0, frameRate: 60 }),
+		RangeError,
+	);
+});
@@ -5,6 +5,7 @@ import {
 	ConstantAnimation,
 	defineTween,
 	Duration,
+	KeyframeInterpolation,
 	Lerp,
 	Painter,
 	resetToZeroInclusiveTime,
@@ -13,7 +14,9 @@ import {
 
 export const lerpNumber: Lerp<number> = (a, b, t) => a + (b - a) * t;
 
-export const tweenNumber: TweenCreator<number> = defineTween(lerpNumber);
+export const tweenNumber: TweenCreator<number> = defineTween(lerpNumber, {
+	constantWhenEqual: true,
+});
 
 export type Point = { x: number; y: number };
 
@@ -22,7 +25,64 @@ export const lerpPoint: Lerp<Point> = (a, b, t) => ({
 	y: lerpNumber(a.y, b.y, t),
 });
 
-export const tweenPoint: TweenCreator<Point> = defineTween(lerpPoint);
+export const tweenPoint: TweenCreator<Point> = defineTween(lerpPoint, {
+	constantWhenEqual: true,
+});
+
+/**
+ * Creates a `KeyframeInterpolation` for values made of numeric components,
+ * which moves through the keyframes on a cubic Hermite spline. The tangent at
+ * each keyframe is based on its neighbours and their times, so there are no
+ * kinks in velocity at the keyframes, even when they are unevenly spaced.
+ *
+ * @param tension 0 gives a Catmull-Rom spline, 1 stops at each keyframe.
+ */
+export function splineInterpolation<T>(
+	toComponents: (value: T) => number[],
+	fromComponents: (components: number[]) => T,
+	tension: number = 0,
+): KeyframeInterpolation<T> {
+	return (keyframes, index) => {
+		const tangentAt = (i: number): number[] => {
+			const previous = keyframes[Math.max(0, i - 1)];
+			const next = keyframes[Math.min(keyframes.length - 1, i + 1)];
+			const span = next.time.subtract(previous.time).frame;
+			const a = toComponents(previous.value);
+			const b = toComponents(next.value);
+			return a.map((value, c) =>
+				span === 0 ? 0 : (1 - tension) * (b[c] - value) / span
+			);
+		};
+		const startTangent = tangentAt(index);
+		const endTangent = tangentAt(index + 1);
+		const length = keyframes[index + 1].time
+			.subtract(keyframes[index].time).frame;
+		return (from, to, t) => {
+			const t2 = t * t;
+			const t3 = t2 * t;
+			const h00 = 2 * t3 - 3 * t2 + 1;
+			const h10 = t3 - 2 * t2 + t;
+			const h01 = -2 * t3 + 3 * t2;
+			const h11 = t3 - t2;
+			const b = toComponents(to);
+			return fromComponents(
+				toComponents(from).map((a, c) =>
+					h00 * a + h10 * length * startTangent[c] + h01 * b[c] +
+					h11 * length * endTangent[c]
+				),
+			);
+		};
+	};
+}
+
+export const catmullRomNumber: KeyframeInterpolation<number> =
+	splineInterpolation((value) => [value], ([value]) => value);
+
+export const catmullRomPoint: KeyframeInterpolation<Point> =
+	splineInterpolation(
+		(point) => [point.x, point.y],
+		([x, y]) => ({ x, y }),
+	);
 
 export function animateTextSlice(
 	text: string,
@@ -36,9 +96,87 @@ export function animateTextSlice(
 	return textAnimation.derive((length) => text.slice(0, Math.floor(length)));
 }
 
+export type ColorStop = {
+	/** Position of the stop along the gradient, from 0 to 1. */
+	offset: number;
+	color: string;
+};
+
+export type LinearGradient = {
+	type: "linear";
+	from: Point;
+	to: Point;
+	stops: ColorStop[];
+};
+
+/** A radial gradient between the circle at `from` and the one at `to`. */
+export type RadialGradient = {
+	type: "radial";
+	from: Point;
+	fromRadius: number;
+	to: Point;
+	toRadius: number;
+	stops: ColorStop[];
+};
+
+export type ConicGradient = {
+	type: "conic";
+	center: Point;
+	startAngleDegrees: number;
+	stops: ColorStop[];
+};
+
+/**
+ * A description of a gradient, which is turned into a `CanvasGradient` by
+ * `resolveStyle` when painting, using the context's current transform.
+ */
+export type Gradient = LinearGradient | RadialGradient | ConicGradient;
+
+/** Anything that can be used as a fill or stroke: a CSS color or a gradient. */
+export type Style = string | Gradient;
+
+export function resolveStyle(
+	context: CanvasRenderingContext2D,
+	style: Style,
+): string | CanvasGradient {
+	if (typeof style === "string") return style;
+	let gradient: CanvasGradient;
+	switch (style.type) {
+		case "linear":
+			gradient = context.createLinearGradient(
+				style.from.x,
+				style.from.y,
+				style.to.x,
+				style.to.y,
+			);
+			break;
+		case "radial":
+			gradient = context.createRadialGradient(
+				style.from.x,
+				style.from.y,
+				style.fromRadius,
+				style.to.x,
+				style.to.y,
+				style.toRadius,
+			);
+			break;
+		case "conic":
+			gradient = context.createConicGradient(
+				style.startAngleDegrees * Math.PI / 180,
+				style.center.x,
+				style.center.y,
+			);
+			break;
+	}
+	for (const stop of style.stops) {
+		gradient.addColorStop(clampNumber(0, 1, stop.offset), stop.color);
+	}
+	return gradient;
+}
+
 export type CommonShapeSettings = {
-	fillStyle?: string;
-	strokeStyle?: string;
+	fillStyle?: Style;
+	strokeStyle?: Style;
 	strokeWidth?: number;
 };
 
@@ -56,11 +194,11 @@ export function createCirclePainter(
 		context.arc(x, y, radius, 0, 2 * Math.PI, false);
 		context.closePath();
 		if (settings.fillStyle) {
-			context.fillStyle = settings.fillStyle;
+			context.fillStyle = resolveStyle(context, settings.fillStyle);
 			context.fill();
 		}
 		if (settings.strokeStyle) {
-			context.strokeStyle = settings.strokeStyle;
+			context.strokeStyle = resolveStyle(context, settings.strokeStyle);
 			context.stroke();
 		}
 	};
@@ -71,6 +209,9 @@ export type RectSettings = CommonShapeSettings & {
 	size: Point;
 };
 
+/** A rectangle without any styling, for example a region of an image. */
+export type Rect = Pick<RectSettings, "position" | "size">;
+
 export const lerpRectSettings: Lerp<RectSettings> = (a, b, t) => ({
 	position: lerpPoint(a.position, b.position, t),
 	size: lerpPoint(a.size, b.size, t),
@@ -90,11 +231,11 @@ export function createRectPainter(
 			strokeStyle,
 		} = settings;
 		if (fillStyle) {
-			context.fillStyle = fillStyle;
+			context.fillStyle = resolveStyle(context, fillStyle);
 			context.fillRect(x, y, width, height);
 		}
 		if (strokeStyle) {
-			context.strokeStyle = strokeStyle;
+			context.strokeStyle = resolveStyle(context, strokeStyle);
 			context.strokeRect(x, y, width, height);
 		}
 	};
@@ -197,11 +338,11 @@ export function createRRectPainter(
 		context.roundRect(x, y, width, height, radius);
 		context.closePath();
 		if (fillStyle) {
-			context.fillStyle = fillStyle;
+			context.fillStyle = resolveStyle(context, fillStyle);
 			context.fill();
 		}
 		if (strokeStyle) {
-			context.strokeStyle = strokeStyle;
+			context.strokeStyle = resolveStyle(context, strokeStyle);
 			context.stroke();
 		}
 	};
@@ -231,11 +372,11 @@ export function createTextPainter(
 			context.lineWidth = strokeWidth;
 		}
 		if (strokeStyle) {
-			context.strokeStyle = strokeStyle;
+			context.strokeStyle = resolveStyle(context, strokeStyle);
 			context.strokeText(text, x, y);
 		}
 		if (fillStyle) {
-			context.fillStyle = fillStyle;
+			context.fillStyle = resolveStyle(context, fillStyle);
 			context.fillText(text, x, y);
 		}
 	};
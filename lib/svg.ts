@@ -0,0 +1,782 @@
+import { Animation, Duration, Painter } from "./core.ts";
+import { Point } from "./std.ts";
+
+/** A 2D affine transform, in the same order as `setTransform(a, ..., f)`. */
+type Matrix = [number, number, number, number, number, number];
+
+const identity: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+	return [
+		m[0] * n[0] + m[2] * n[1],
+		m[1] * n[0] + m[3] * n[1],
+		m[0] * n[2] + m[2] * n[3],
+		m[1] * n[2] + m[3] * n[3],
+		m[0] * n[4] + m[2] * n[5] + m[4],
+		m[1] * n[4] + m[3] * n[5] + m[5],
+	];
+}
+
+function apply(m: Matrix, x: number, y: number): Point {
+	return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+function formatNumber(value: number): string {
+	return String(Math.round(value * 1000) / 1000);
+}
+
+function formatMatrix(m: Matrix): string {
+	return `matrix(${m.map(formatNumber).join(" ")})`;
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replaceAll("&", "&amp;")
+		.replaceAll("<", "&lt;")
+		.replaceAll(">", "&gt;")
+		.replaceAll('"', "&quot;");
+}
+
+class SvgGradient {
+	readonly stops: [number, string][] = [];
+
+	constructor(
+		readonly kind: "linear" | "radial" | "conic",
+		readonly args: number[],
+	) {}
+
+	addColorStop(offset: number, color: string): void {
+		this.stops.push([offset, color]);
+	}
+}
+
+type PaintStyle = string | CanvasGradient | CanvasPattern;
+
+const stateKeys = [
+	"fillStyle",
+	"strokeStyle",
+	"lineWidth",
+	"lineCap",
+	"lineJoin",
+	"miterLimit",
+	"font",
+	"textAlign",
+	"textBaseline",
+	"globalAlpha",
+] as const;
+
+type SvgState = Pick<SvgContext, typeof stateKeys[number]> & {
+	transform: Matrix;
+	clip?: string;
+	lineDash: number[];
+};
+
+const textAnchors: Record<CanvasTextAlign, string> = {
+	start: "start",
+	left: "start",
+	center: "middle",
+	end: "end",
+	right: "end",
+};
+
+const baselines: Record<CanvasTextBaseline, string> = {
+	alphabetic: "alphabetic",
+	top: "text-before-edge",
+	hanging: "hanging",
+	middle: "middle",
+	ideographic: "ideographic",
+	bottom: "text-after-edge",
+};
+
+const fontPattern = /^(.*?)(\d*\.?\d+)(px|pt|em|rem|%)(?:\/\S+)?\s+(.+)$/;
+
+/**
+ * Converts a CSS font shorthand, like `"bold 20px sans-serif"`, to separate
+ * attributes, as not every SVG renderer supports the shorthand.
+ */
+function fontAttributes(font: string): string {
+	const match = fontPattern.exec(font.trim());
+	if (!match) return `style="font: ${escapeXml(font)}"`;
+	const [, prefix, size, unit, family] = match;
+	const attributes = [
+		`font-size="${size}${unit}"`,
+		`font-family="${escapeXml(family)}"`,
+	];
+	for (const word of prefix.split(/\s+/)) {
+		if (word === "italic" || word === "oblique") {
+			attributes.push(`font-style="${word}"`);
+		} else if (word === "bold" || word === "lighter" || /^\d+$/.test(word)) {
+			attributes.push(`font-weight="${word}"`);
+		}
+	}
+	return attributes.join(" ");
+}
+
+const imageSignatures: [string, number[]][] = [
+	["image/png", [0x89, 0x50, 0x4e, 0x47]],
+	["image/jpeg", [0xff, 0xd8, 0xff]],
+	["image/gif", [0x47, 0x49, 0x46, 0x38]],
+	["image/webp", [0x52, 0x49, 0x46, 0x46]],
+];
+
+/** Encodes an image file as a data URL, with its type from its first bytes. */
+function toDataUrl(data: Uint8Array): string {
+	const text = new TextDecoder().decode(data.subarray(0, 256)).trimStart();
+	const type = text.startsWith("<")
+		? "image/svg+xml"
+		: imageSignatures.find(([, signature]) =>
+			signature.every((byte, i) => data[i] === byte)
+		)?.[0] ?? "application/octet-stream";
+	// Converted in chunks, as spreading a large array overflows the stack
+	let binary = "";
+	for (let i = 0; i < data.length; i += 0x8000) {
+		binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+	}
+	return `data:${type};base64,${btoa(binary)}`;
+}
+
+export type SvgContextSettings = {
+	/**
+	 * Returns the width of text for `measureText()`. Defaults to an estimate
+	 * of half the font size per character, as there's no font rendering.
+	 */
+	measureText?: (text: string, font: string) => number;
+	/** Prepended to the ids of gradients and clip paths, to keep them unique. */
+	idPrefix?: string;
+};
+
+/**
+ * A `CanvasRenderingContext2D` replacement, which converts drawing operations
+ * to SVG elements instead of pixels, so painters can be exported as vector
+ * graphics without a native canvas.
+ *
+ * It supports paths, fills and strokes (with colors and linear or radial
+ * gradients), text, images, transforms, clipping and opacity. Shadows,
+ * filters, blend modes, conic gradients and pixel access are not supported,
+ * and `clearRect()` only works for clearing the whole canvas.
+ *
+ * Painters take a `CanvasRenderingContext2D`, so pass `svg.context`.
+ */
+export class SvgContext {
+	readonly canvas: { width: number; height: number };
+
+	fillStyle: PaintStyle = "#000000";
+	strokeStyle: PaintStyle = "#000000";
+	lineWidth = 1;
+	lineCap: CanvasLineCap = "butt";
+	lineJoin: CanvasLineJoin = "miter";
+	miterLimit = 10;
+	font = "10px sans-serif";
+	textAlign: CanvasTextAlign = "start";
+	textBaseline: CanvasTextBaseline = "alphabetic";
+	globalAlpha = 1;
+
+	private matrix: Matrix = identity;
+	private clipId?: string;
+	private lineDash: number[] = [];
+	private readonly stack: SvgState[] = [];
+	private readonly defs: string[] = [];
+	private elements: string[] = [];
+	private path: string[] = [];
+	private current?: Point;
+	private subpathStart?: Point;
+	private nextId = 0;
+	private readonly measure: (text: string, font: string) => number;
+	private readonly idPrefix: string;
+
+	constructor(size: Point, settings: SvgContextSettings = {}) {
+		this.canvas = { width: size.x, height: size.y };
+		this.measure = settings.measureText ?? ((text, font) => {
+			const fontSize = Number(/(\d*\.?\d+)px/.exec(font)?.[1] ?? 10);
+			return text.length * fontSize / 2;
+		});
+		this.idPrefix = settings.idPrefix ?? "";
+	}
+
+	/** This context, typed as a `CanvasRenderingContext2D`. */
+	get context(): CanvasRenderingContext2D {
+		return this as unknown as CanvasRenderingContext2D;
+	}
+
+	/** The gradient and clip path definitions, and the painted elements. */
+	toSvgContent(): string {
+		const defs = this.defs.length ? `<defs>${this.defs.join("")}</defs>` : "";
+		return defs + this.elements.join("");
+	}
+
+	/** Returns a complete SVG document of everything painted so far. */
+	toSvg(): string {
+		const { width, height } = this.canvas;
+		return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+			`height="${height}" viewBox="0 0 ${width} ${height}">` +
+			`${this.toSvgContent()}</svg>`;
+	}
+
+	save(): void {
+		const state = Object.fromEntries(
+			stateKeys.map((key) => [key, this[key]]),
+		) as Pick<SvgContext, typeof stateKeys[number]>;
+		this.stack.push({
+			...state,
+			transform: this.matrix,
+			clip: this.clipId,
+			lineDash: this.lineDash,
+		});
+	}
+
+	restore(): void {
+		const state = this.stack.pop();
+		if (!state) return;
+		const { transform, clip, lineDash, ...properties } = state;
+		Object.assign(this, properties);
+		this.matrix = transform;
+		this.clipId = clip;
+		this.lineDash = lineDash;
+	}
+
+	translate(x: number, y: number): void {
+		this.matrix = multiply(this.matrix, [1, 0, 0, 1, x, y]);
+	}
+
+	scale(x: number, y: number): void {
+		this.matrix = multiply(this.matrix, [x, 0, 0, y, 0, 0]);
+	}
+
+	rotate(angle: number): void {
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		this.matrix = multiply(this.matrix, [cos, sin, -sin, cos, 0, 0]);
+	}
+
+	transform(
+		a: number,
+		b: number,
+		c: number,
+		d: number,
+		e: number,
+		f: number,
+	): void {
+		this.matrix = multiply(this.matrix, [a, b, c, d, e, f]);
+	}
+
+	setTransform(
+		a: number | DOMMatrix2DInit = {},
+		b = 0,
+		c = 0,
+		d = 1,
+		e = 0,
+		f = 0,
+	): void {
+		if (typeof a === "object") {
+			this.matrix = [
+				a.a ?? 1,
+				a.b ?? 0,
+				a.c ?? 0,
+				a.d ?? 1,
+				a.e ?? 0,
+				a.f ?? 0,
+			];
+		} else {
+			this.matrix = [a, b, c, d, e, f];
+		}
+	}
+
+	resetTransform(): void {
+		this.matrix = identity;
+	}
+
+	getTransform(): DOMMatrix {
+		const [a, b, c, d, e, f] = this.matrix;
+		// DOMMatrix isn't available in every runtime, like Deno
+		return typeof DOMMatrix === "undefined"
+			? { a, b, c, d, e, f } as DOMMatrix
+			: new DOMMatrix([a, b, c, d, e, f]);
+	}
+
+	setLineDash(segments: number[]): void {
+		this.lineDash = [...segments];
+	}
+
+	getLineDash(): number[] {
+		return [...this.lineDash];
+	}
+
+	beginPath(): void {
+		this.path = [];
+		this.current = undefined;
+		this.subpathStart = undefined;
+	}
+
+	closePath(): void {
+		if (!this.current) return;
+		this.path.push("Z");
+		this.current = this.subpathStart;
+	}
+
+	/** Adds a point to the path, in user space. */
+	private pathCommand(command: string, ...points: Point[]): void {
+		const coordinates = points.flatMap((point) => {
+			const { x, y } = apply(this.matrix, point.x, point.y);
+			return [formatNumber(x), formatNumber(y)];
+		});
+		this.path.push(`${command}${coordinates.join(" ")}`);
+		this.current = points[points.length - 1];
+	}
+
+	moveTo(x: number, y: number): void {
+		this.pathCommand("M", { x, y });
+		this.subpathStart = { x, y };
+	}
+
+	lineTo(x: number, y: number): void {
+		if (!this.current) return this.moveTo(x, y);
+		this.pathCommand("L", { x, y });
+	}
+
+	bezierCurveTo(
+		cp1x: number,
+		cp1y: number,
+		cp2x: number,
+		cp2y: number,
+		x: number,
+		y: number,
+	): void {
+		if (!this.current) this.moveTo(cp1x, cp1y);
+		this.pathCommand("C", { x: cp1x, y: cp1y }, { x: cp2x, y: cp2y }, {
+			x,
+			y,
+		});
+	}
+
+	quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+		if (!this.current) this.moveTo(cpx, cpy);
+		this.pathCommand("Q", { x: cpx, y: cpy }, { x, y });
+	}
+
+	rect(x: number, y: number, width: number, height: number): void {
+		this.moveTo(x, y);
+		this.lineTo(x + width, y);
+		this.lineTo(x + width, y + height);
+		this.lineTo(x, y + height);
+		this.closePath();
+	}
+
+	roundRect(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		radii: number | DOMPointInit | (number | DOMPointInit)[] = 0,
+	): void {
+		// Only a single radius for all corners is supported
+		const first = Array.isArray(radii) ? radii[0] ?? 0 : radii;
+		const radius = Math.min(
+			typeof first === "number" ? first : first.x ?? 0,
+			Math.abs(width) / 2,
+			Math.abs(height) / 2,
+		);
+		const right = x + width;
+		const bottom = y + height;
+		this.moveTo(x + radius, y);
+		this.lineTo(right - radius, y);
+		this.arc(right - radius, y + radius, radius, -Math.PI / 2, 0);
+		this.lineTo(right, bottom - radius);
+		this.arc(right - radius, bottom - radius, radius, 0, Math.PI / 2);
+		this.lineTo(x + radius, bottom);
+		this.arc(x + radius, bottom - radius, radius, Math.PI / 2, Math.PI);
+		this.lineTo(x, y + radius);
+		this.arc(x + radius, y + radius, radius, Math.PI, Math.PI * 3 / 2);
+		this.closePath();
+	}
+
+	arc(
+		x: number,
+		y: number,
+		radius: number,
+		startAngle: number,
+		endAngle: number,
+		counterclockwise = false,
+	): void {
+		this.ellipse(
+			x,
+			y,
+			radius,
+			radius,
+			0,
+			startAngle,
+			endAngle,
+			counterclockwise,
+		);
+	}
+
+	/** Adds an elliptical arc as cubic bezier curves, each at most 90°. */
+	ellipse(
+		x: number,
+		y: number,
+		radiusX: number,
+		radiusY: number,
+		rotation: number,
+		startAngle: number,
+		endAngle: number,
+		counterclockwise = false,
+	): void {
+		const tau = 2 * Math.PI;
+		let sweep = endAngle - startAngle;
+		if (!counterclockwise && sweep >= tau) sweep = tau;
+		else if (counterclockwise && -sweep >= tau) sweep = -tau;
+		else if (!counterclockwise) sweep = ((sweep % tau) + tau) % tau;
+		else sweep = -(((-sweep % tau) + tau) % tau);
+
+		const cos = Math.cos(rotation);
+		const sin = Math.sin(rotation);
+		const pointAt = (angle: number, scale = 1): Point => {
+			const px = radiusX * Math.cos(angle) * scale;
+			const py = radiusY * Math.sin(angle) * scale;
+			return { x: x + px * cos - py * sin, y: y + px * sin + py * cos };
+		};
+		const tangentAt = (angle: number): Point => {
+			const px = -radiusX * Math.sin(angle);
+			const py = radiusY * Math.cos(angle);
+			return { x: px * cos - py * sin, y: px * sin + py * cos };
+		};
+
+		const start = pointAt(startAngle);
+		if (this.current) this.pathCommand("L", start);
+		else this.moveTo(start.x, start.y);
+
+		const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+		const step = sweep / count;
+		const k = 4 / 3 * Math.tan(step / 4);
+		for (let i = 0; i < count; i++) {
+			const from = startAngle + step * i;
+			const to = from + step;
+			const p0 = pointAt(from);
+			const p3 = pointAt(to);
+			const t0 = tangentAt(from);
+			const t3 = tangentAt(to);
+			this.pathCommand(
+				"C",
+				{ x: p0.x + t0.x * k, y: p0.y + t0.y * k },
+				{ x: p3.x - t3.x * k, y: p3.y - t3.y * k },
+				p3,
+			);
+		}
+	}
+
+	private newId(kind: string): string {
+		return `${this.idPrefix}${kind}${this.nextId++}`;
+	}
+
+	/** Converts a fill or stroke style to an SVG paint, adding gradients. */
+	private paint(style: PaintStyle): string {
+		if (typeof style === "string") return escapeXml(style);
+		if (!(style instanceof SvgGradient) || !style.stops.length) {
+			return "none";
+		}
+		const sorted = [...style.stops].sort((a, b) => a[0] - b[0]);
+		// SVG has no conic gradients, so they're painted with their first color
+		if (style.kind === "conic") return escapeXml(sorted[0][1]);
+		const id = this.newId("gradient");
+		const stops = sorted
+			.map(([offset, color]) =>
+				`<stop offset="${formatNumber(offset)}" stop-color="${
+					escapeXml(color)
+				}"/>`
+			)
+			.join("");
+		const [a0, a1, a2, a3, a4, a5] = style.args.map(formatNumber);
+		const geometry = style.kind === "linear"
+			? `<linearGradient id="${id}" x1="${a0}" y1="${a1}" x2="${a2}" y2="${a3}"`
+			: `<radialGradient id="${id}" fx="${a0}" fy="${a1}" fr="${a2}" ` +
+				`cx="${a3}" cy="${a4}" r="${a5}"`;
+		this.defs.push(
+			`${geometry} gradientUnits="userSpaceOnUse" ` +
+				`gradientTransform="${formatMatrix(this.matrix)}">` +
+				`${stops}</${style.kind}Gradient>`,
+		);
+		return `url(#${id})`;
+	}
+
+	createLinearGradient(
+		x0: number,
+		y0: number,
+		x1: number,
+		y1: number,
+	): CanvasGradient {
+		return new SvgGradient("linear", [x0, y0, x1, y1]);
+	}
+
+	createRadialGradient(
+		x0: number,
+		y0: number,
+		r0: number,
+		x1: number,
+		y1: number,
+		r1: number,
+	): CanvasGradient {
+		return new SvgGradient("radial", [x0, y0, r0, x1, y1, r1]);
+	}
+
+	createConicGradient(
+		startAngle: number,
+		x: number,
+		y: number,
+	): CanvasGradient {
+		return new SvgGradient("conic", [startAngle, x, y]);
+	}
+
+	/** Adds an element, clipped by the current clip path. */
+	private emit(element: string): void {
+		const clip = this.clipId;
+		this.elements.push(
+			clip ? `<g clip-path="url(#${clip})">${element}</g>` : element,
+		);
+	}
+
+	private opacityAttribute(): string {
+		return this.globalAlpha < 1
+			? ` opacity="${formatNumber(this.globalAlpha)}"`
+			: "";
+	}
+
+	/**
+	 * Stroke attributes, with the line width scaled by the current transform,
+	 * as paths are converted to canvas coordinates.
+	 */
+	private strokeAttributes(scale: number): string {
+		const dash = this.lineDash.length
+			? ` stroke-dasharray="${
+				this.lineDash.map((length) => formatNumber(length * scale)).join(" ")
+			}"`
+			: "";
+		return ` stroke="${this.paint(this.strokeStyle)}" ` +
+			`stroke-width="${formatNumber(this.lineWidth * scale)}" ` +
+			`stroke-linecap="${this.lineCap}" stroke-linejoin="${this.lineJoin}" ` +
+			`stroke-miterlimit="${formatNumber(this.miterLimit)}"${dash}`;
+	}
+
+	private transformScale(): number {
+		const [a, b, c, d] = this.matrix;
+		return Math.sqrt(Math.abs(a * d - b * c));
+	}
+
+	fill(fillRule: CanvasFillRule = "nonzero"): void {
+		if (!this.path.length) return;
+		this.emit(
+			`<path d="${this.path.join("")}" fill="${this.paint(this.fillStyle)}" ` +
+				`fill-rule="${fillRule}"${this.opacityAttribute()}/>`,
+		);
+	}
+
+	stroke(): void {
+		if (!this.path.length) return;
+		this.emit(
+			`<path d="${this.path.join("")}" fill="none"` +
+				`${this.strokeAttributes(this.transformScale())}` +
+				`${this.opacityAttribute()}/>`,
+		);
+	}
+
+	clip(fillRule: CanvasFillRule = "nonzero"): void {
+		const id = this.newId("clip");
+		const parent = this.clipId ? ` clip-path="url(#${this.clipId})"` : "";
+		this.defs.push(
+			`<clipPath id="${id}"${parent}><path d="${this.path.join("")}" ` +
+				`clip-rule="${fillRule}"/></clipPath>`,
+		);
+		this.clipId = id;
+	}
+
+	/** Runs `draw` with a path of just the given rect, keeping the path. */
+	private withRectPath(
+		x: number,
+		y: number,
+		width: number,
+		height: number,
+		draw: () => void,
+	): void {
+		const { path, current, subpathStart } = this;
+		this.beginPath();
+		this.rect(x, y, width, height);
+		draw();
+		this.path = path;
+		this.current = current;
+		this.subpathStart = subpathStart;
+	}
+
+	fillRect(x: number, y: number, width: number, height: number): void {
+		this.withRectPath(x, y, width, height, () => this.fill());
+	}
+
+	strokeRect(x: number, y: number, width: number, height: number): void {
+		this.withRectPath(x, y, width, height, () => this.stroke());
+	}
+
+	/** Removes everything painted, when the rect covers the whole canvas. */
+	clearRect(x: number, y: number, width: number, height: number): void {
+		const topLeft = apply(this.matrix, x, y);
+		const bottomRight = apply(this.matrix, x + width, y + height);
+		if (
+			topLeft.x <= 0 && topLeft.y <= 0 &&
+			bottomRight.x >= this.canvas.width &&
+			bottomRight.y >= this.canvas.height
+		) {
+			this.elements = [];
+		}
+	}
+
+	private text(text: string, x: number, y: number, paint: string): void {
+		this.emit(
+			`<text x="${formatNumber(x)}" y="${formatNumber(y)}" ` +
+				`transform="${formatMatrix(this.matrix)}" ` +
+				`${fontAttributes(this.font)} xml:space="preserve" ` +
+				`text-anchor="${textAnchors[this.textAlign]}" ` +
+				`dominant-baseline="${baselines[this.textBaseline]}"${paint}` +
+				`${this.opacityAttribute()}>${escapeXml(text)}</text>`,
+		);
+	}
+
+	fillText(text: string, x: number, y: number): void {
+		this.text(text, x, y, ` fill="${this.paint(this.fillStyle)}"`);
+	}
+
+	strokeText(text: string, x: number, y: number): void {
+		this.text(text, x, y, ` fill="none"${this.strokeAttributes(1)}`);
+	}
+
+	measureText(text: string): { width: number } {
+		return { width: this.measure(text, this.font) };
+	}
+
+	/**
+	 * Draws an image, which is embedded by its `src`, or by `toDataURL()` for
+	 * canvases. Images with the encoded file as their `src` (like those of
+	 * `@napi-rs/canvas`) are embedded as data URLs.
+	 *
+	 * @throws {TypeError} When the image can't be embedded.
+	 */
+	drawImage(image: CanvasImageSource, ...args: number[]): void {
+		const source = image as {
+			src?: string | Uint8Array;
+			toDataURL?: () => string;
+			width: number;
+			height: number;
+		};
+		const href = typeof source.src === "string"
+			? source.src
+			: source.src instanceof Uint8Array
+			? toDataUrl(source.src)
+			: source.toDataURL?.();
+		if (!href) {
+			throw new TypeError(
+				"Can't embed an image without a src or toDataURL() in an SVG",
+			);
+		}
+		const { width, height } = source;
+		// Like the canvas, the source rect is only given with all 8 arguments
+		const [sx, sy, sw, sh, dx, dy, dw = sw, dh = sh] = args.length > 4
+			? args
+			: [0, 0, width, height, ...args];
+		this.emit(
+			`<svg x="${formatNumber(dx)}" y="${formatNumber(dy)}" ` +
+				`width="${formatNumber(dw)}" height="${formatNumber(dh)}" ` +
+				`viewBox="${[sx, sy, sw, sh].map(formatNumber).join(" ")}" ` +
+				`preserveAspectRatio="none" overflow="hidden" ` +
+				`transform="${formatMatrix(this.matrix)}"` +
+				`${this.opacityAttribute()}><image width="${width}" ` +
+				`height="${height}" href="${escapeXml(href)}"/></svg>`,
+		);
+	}
+}
+
+/** Paints `painter` on a new `SvgContext`, returning the SVG document. */
+export function paintToSvg(
+	painter: Painter,
+	size: Point,
+	settings?: SvgContextSettings,
+): string {
+	const svg = new SvgContext(size, settings);
+	painter(svg.context);
+	return svg.toSvg();
+}
+
+export type AnimatedSvgSettings = {
+	size: Point;
+	frameRate: number;
+	/** The first frame to include, defaults to zero. */
+	from?: Duration;
+	/** The last frame to include (inclusive), defaults to the duration. */
+	to?: Duration;
+	/** Defaults to looping forever. */
+	loop?: boolean;
+	measureText?: (text: string, font: string) => number;
+};
+
+/**
+ * Renders an animated SVG document, where every frame is stored as a group of
+ * elements, which are shown one after another with SMIL animations. Runs of
+ * frames which are the same (according to `Animation.isSameAt`) are stored
+ * only once.
+ */
+export function renderAnimatedSvg(
+	animation: Animation<Painter>,
+	settings: AnimatedSvgSettings,
+): string {
+	const {
+		size,
+		frameRate,
+		from = Duration.zero,
+		to = animation.duration,
+		loop = true,
+	} = settings;
+	if (to.isLessThan(from)) {
+		throw new RangeError(
+			`Invalid frame range [${from.frame}, ${to.frame}]`,
+		);
+	}
+	const total = Math.floor(to.subtract(from).frame) + 1;
+	const runs: { start: number; end: number }[] = [];
+	for (let index = 0; index < total; index++) {
+		const previous = runs[runs.length - 1];
+		const time = from.add(new Duration(index));
+		if (
+			previous &&
+			animation.isSameAt(from.add(new Duration(previous.start)), time)
+		) {
+			previous.end = index + 1;
+		} else {
+			runs.push({ start: index, end: index + 1 });
+		}
+	}
+
+	const dur = `${formatNumber(total / frameRate)}s`;
+	const repeat = loop ? "indefinite" : "1";
+	const groups = runs.map(({ start, end }, i) => {
+		const svg = new SvgContext(size, {
+			measureText: settings.measureText,
+			idPrefix: `f${i}-`,
+		});
+		animation.at(from.add(new Duration(start)))(svg.context);
+		// Each group is only displayed between the start and end of its run
+		const values = ["none", "inline", "none"];
+		const keyTimes = [0, start / total, end / total];
+		if (start === 0) {
+			values.shift();
+			keyTimes.shift();
+		}
+		if (end === total) {
+			values.pop();
+			keyTimes.pop();
+		}
+		const display = runs.length > 1
+			? `<animate attributeName="display" values="${values.join(";")}" ` +
+				`keyTimes="${keyTimes.map(formatNumber).join(";")}" dur="${dur}" ` +
+				`calcMode="discrete" repeatCount="${repeat}" fill="freeze"/>`
+			: "";
+		const initial = start === 0 ? "" : ` display="none"`;
+		return `<g${initial}>${display}${svg.toSvgContent()}</g>`;
+	});
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${size.x}" ` +
+		`height="${size.y}" viewBox="0 0 ${size.x} ${size.y}">` +
+		`${groups.join("")}</svg>`;
+}
@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import { ConstantAnimation, Duration } from "./core.ts";
+import { createRectPainter, tweenNumber } from "./std.ts";
+import { paintToSvg, renderAnimatedSvg, SvgContext } from "./svg.ts";
+
+const createSquare = (x: number) =>
+	createRectPainter({
+		position: { x, y: 0 },
+		size: { x: 1, y: 1 },
+		fillStyle: "red",
+	});
+
+/** Returns the elements of an SVG document, without the root element. */
+const content = (svg: string) =>
+	svg.replace(/^<svg [^>]*>/, "").replace(/<\/svg>$/, "");
+
+Deno.test("converts transformed paths to canvas coordinates", () => {
+	const svg = new SvgContext({ x: 100, y: 50 });
+	const { context } = svg;
+	context.translate(10, 5);
+	context.scale(2, 2);
+	context.beginPath();
+	context.moveTo(0, 0);
+	context.lineTo(10, 0);
+	context.quadraticCurveTo(10, 10, 0, 10);
+	context.closePath();
+	context.fillStyle = "red";
+	context.fill();
+	context.lineWidth = 2;
+	context.setLineDash([1, 2]);
+	context.stroke();
+	assert.equal(
+		svg.toSvg(),
+		'<svg xmlns="http://www.w3.org/2000/svg" width="100" height="50" ' +
+			'viewBox="0 0 100 50">' +
+			'<path d="M10 5L30 5Q30 25 10 25Z" fill="red" fill-rule="nonzero"/>' +
+			'<path d="M10 5L30 5Q30 25 10 25Z" fill="none" stroke="#000000" ' +
+			'stroke-width="4" stroke-linecap="butt" stroke-linejoin="miter" ' +
+			'stroke-miterlimit="10" stroke-dasharray="2 4"/></svg>',
+	);
+});
+
+Deno.test("converts clips and gradients to definitions", () => {
+	const svg = paintToSvg((context) => {
+		context.save();
+		context.beginPath();
+		context.rect(0, 0, 10, 10);
+		context.clip();
+		const gradient = context.createLinearGradient(0, 0, 10, 0);
+		gradient.addColorStop(1, "blue");
+		gradient.addColorStop(0, "red");
+		context.fillStyle = gradient;
+		context.globalAlpha = 0.5;
+		context.fillRect(0, 0, 20, 20);
+		context.restore();
+		context.fillRect(0, 0, 1, 1);
+	}, { x: 20, y: 20 });
+	assert.equal(
+		content(svg),
+		"<defs>" +
+			'<clipPath id="clip0"><path d="M0 0L10 0L10 10L0 10Z" ' +
+			'clip-rule="nonzero"/></clipPath>' +
+			'<linearGradient id="gradient1" x1="0" y1="0" x2="10" y2="0" ' +
+			'gradientUnits="userSpaceOnUse" ' +
+			'gradientTransform="matrix(1 0 0 1 0 0)">' +
+			'<stop offset="0" stop-color="red"/>' +
+			'<stop offset="1" stop-color="blue"/></linearGradient></defs>' +
+			'<g clip-path="url(#clip0)"><path d="M0 0L20 0L20 20L0 20Z" ' +
+			'fill="url(#gradient1)" fill-rule="nonzero" opacity="0.5"/></g>' +
+			'<path d="M0 0L1 0L1 1L0 1Z" fill="#000000" fill-rule="nonzero"/>',
+	);
+});
+
+Deno.test("converts text with escaped content and font attributes", () => {
+	const svg = paintToSvg((context) => {
+		context.font = "bold 12px Arial, sans-serif";
+		context.textAlign = "center";
+		context.textBaseline = "middle";
+		context.fillStyle = "#000";
+		context.fillText("a < b & c", 10, 20);
+	}, { x: 20, y: 20 });
+	assert.equal(
+		content(svg),
+		'<text x="10" y="20" transform="matrix(1 0 0 1 0 0)" ' +
+			'font-size="12px" font-family="Arial, sans-serif" ' +
+			'font-weight="bold" xml:space="preserve" text-anchor="middle" ' +
+			'dominant-baseline="middle" fill="#000">a &lt; b &amp; c</text>',
+	);
+});
+
+Deno.test("embeds images as data URLs", () => {
+	const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1]);
+	const image = { src: png, width: 4, height: 2 };
+	const svg = paintToSvg((context) => {
+		context.scale(2, 2);
+		context.drawImage(image as unknown as CanvasImageSource, 1, 2);
+	}, { x: 20, y: 20 });
+	assert.equal(
+		content(svg),
+		'<svg x="1" y="2" width="4" height="2" viewBox="0 0 4 2" ' +
+			'preserveAspectRatio="none" overflow="hidden" ' +
+			'transform="matrix(2 0 0 2 0 0)"><image width="4" height="2" ' +
+			'href="data:image/png;base64,iVBORwE="/></svg>',
+	);
+	assert.throws(
+		() =>
+			paintToSvg((context) =>
+				context.drawImage(
+					{ width: 1, height: 1 } as unknown as CanvasImageSource,
+					0,
+					0,
+				), { x: 1, y: 1 }),
+		TypeError,
+	);
+});
+
+Deno.test("clears everything when the whole canvas is cleared", () => {
+	const svg = new SvgContext({ x: 10, y: 10 });
+	createSquare(0)(svg.context);
+	svg.context.clearRect(0, 0, 5, 5);
+	assert.notEqual(svg.toSvgContent(), "");
+	svg.context.clearRect(0, 0, 10, 10);
+	assert.equal(svg.toSvgContent(), "");
+});
+
+Deno.test("renders animated SVGs with a group for each run of frames", () => {
+	const animation = tweenNumber({ from: 0, to: 10, duration: new Duration(2) })
+		.extend({ before: Duration.zero, after: new Duration(2) })
+		.derive(createSquare);
+	const animate = (values: string, keyTimes: string) =>
+		`<animate attributeName="display" values="${values}" ` +
+		`keyTimes="${keyTimes}" dur="0.5s" calcMode="discrete" ` +
+		`repeatCount="indefinite" fill="freeze"/>`;
+	assert.equal(
+		content(
+			renderAnimatedSvg(animation, { size: { x: 20, y: 20 }, frameRate: 10 }),
+		),
+		`<g>${animate("inline;none", "0;0.2")}` +
+			'<path d="M0 0L1 0L1 1L0 1Z" fill="red" fill-rule="nonzero"/></g>' +
+			`<g display="none">${animate("none;inline;none", "0;0.2;0.4")}` +
+			'<path d="M5 0L6 0L6 1L5 1Z" fill="red" fill-rule="nonzero"/></g>' +
+			`<g display="none">${animate("none;inline", "0;0.4")}` +
+			'<path d="M10 0L11 0L11 1L10 1Z" fill="red" fill-rule="nonzero"/></g>',
+	);
+});
+
+Deno.test("renders still animations as a single group", () => {
+	const animation = new ConstantAnimation(createSquare(0), new Duration(3));
+	assert.equal(
+		content(
+			renderAnimatedSvg(animation, { size: { x: 2, y: 2 }, frameRate: 10 }),
+		),
+		'<g><path d="M0 0L1 0L1 1L0 1Z" fill="red" fill-rule="nonzero"/></g>',
+	);
+	assert.throws(
+		() =>
+			renderAnimatedSvg(animation, {
+				size: { x: 2, y: 2 },
+				frameRate: 10,
+				from: new Duration(2),
+				to: new Duration(1),
+			}),
+		RangeError,
+	);
+});
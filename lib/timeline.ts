@@ -0,0 +1,158 @@
+import {
+	Animation,
+	clampTime,
+	Duration,
+	Timed,
+	TimeTransformStrategy,
+	WindowedAnimation,
+} from "./core.ts";
+
+/**
+ * Where an animation or label is placed on a `Timeline`. It can be either an
+ * absolute `Duration`, or a string which is one of:
+ * - a label name, like `"intro"`
+ * - `"<"` for the start of the previously added animation
+ * - `">"` for the end of the previously added animation
+ * - any of the above followed by an offset in frames, like `"intro+=30"`,
+ *   `"<+=10"` or `">-=5"`
+ * - just an offset, like `"+=30"`, which is relative to the end of the
+ *   timeline
+ */
+export type TimelinePosition = Duration | string;
+
+const positionPattern = /^(.*?)(?:([+-])=(\d*\.?\d+))?$/;
+
+/**
+ * An `Animation` built by a `Timeline`, which also keeps the labels defined
+ * on the timeline, so they can be looked up (for example to seek to them).
+ */
+export class TimelineAnimation<T> extends WindowedAnimation<T> {
+	constructor(
+		timedAnimations: Timed<Animation<T>>[],
+		duration: Duration,
+		public readonly labels: ReadonlyMap<string, Duration>,
+		strategy: TimeTransformStrategy = clampTime,
+	) {
+		super(timedAnimations, duration, strategy);
+	}
+
+	/** Returns the time of the label, throws if it doesn't exist. */
+	labelTime(name: string): Duration {
+		const time = this.labels.get(name);
+		if (!time) throw new Error(`Unknown timeline label "${name}"`);
+		return time;
+	}
+}
+
+/**
+ * A builder for placing animations in time relative to each other and to
+ * named labels, without having to compute their start times manually.
+ *
+ * The built animation evaluates to the values of all added animations, in
+ * the order they were added (so for painters, later ones paint on top).
+ * Like in `WindowedAnimation`, each animation is evaluated with time clamped
+ * to its own window.
+ */
+export class Timeline<T> {
+	private readonly entries: Timed<Animation<T>>[] = [];
+	private readonly labels = new Map<string, Duration>();
+	private previous?: Timed<Animation<T>>;
+	private end: Duration = Duration.zero;
+
+	/** The end of the latest animation or label added so far. */
+	get duration(): Duration {
+		return this.end;
+	}
+
+	/**
+	 * Places `animation` at the given `position`, which by default is the end
+	 * of the timeline.
+	 */
+	add(animation: Animation<T>, position: TimelinePosition = "+=0"): this {
+		const time = this.resolve(position);
+		const entry = { value: animation, time };
+		this.entries.push(entry);
+		this.previous = entry;
+		this.end = Duration.max(this.end, time.add(animation.duration));
+		return this;
+	}
+
+	/** Adds all `animations` at the same `position`. */
+	addAll(
+		animations: Animation<T>[],
+		position: TimelinePosition = "+=0",
+	): this {
+		const time = this.resolve(position);
+		for (const animation of animations) this.add(animation, time);
+		return this;
+	}
+
+	/**
+	 * Defines a label at the given `position`, which by default is the end of
+	 * the timeline.
+	 */
+	addLabel(name: string, position: TimelinePosition = "+=0"): this {
+		const time = this.resolve(position);
+		this.labels.set(name, time);
+		this.end = Duration.max(this.end, time);
+		return this;
+	}
+
+	/**
+	 * Converts a `TimelinePosition` to an absolute time, based on the current
+	 * state of the timeline.
+	 */
+	resolve(position: TimelinePosition): Duration {
+		if (position instanceof Duration) return this.check(position, position);
+		const [, anchor, sign, amount] = position.match(positionPattern)!;
+		const base = this.resolveAnchor(anchor, position);
+		if (!sign) return this.check(base, position);
+		const offset = new Duration(Number.parseFloat(amount));
+		return this.check(
+			sign === "+" ? base.add(offset) : base.subtract(offset),
+			position,
+		);
+	}
+
+	private resolveAnchor(anchor: string, position: string): Duration {
+		switch (anchor) {
+			case "":
+				return this.end;
+			case "<":
+				return this.previous?.time ?? Duration.zero;
+			case ">":
+				return this.previous
+					? this.previous.time.add(this.previous.value.duration)
+					: Duration.zero;
+		}
+		const label = this.labels.get(anchor);
+		if (!label) {
+			throw new Error(
+				`Unknown timeline label "${anchor}" in position "${position}"`,
+			);
+		}
+		return label;
+	}
+
+	private check(time: Duration, position: TimelinePosition): Duration {
+		if (time.isLessThan(Duration.zero)) {
+			const description = position instanceof Duration
+				? position.frame
+				: `"${position}"`;
+			throw new RangeError(
+				`Timeline position ${description} resolves to negative time ${time.frame}`,
+			);
+		}
+		return time;
+	}
+
+	/** Creates the animation from the current state of the timeline. */
+	build(strategy: TimeTransformStrategy = clampTime): TimelineAnimation<T> {
+		return new TimelineAnimation(
+			[...this.entries],
+			this.end,
+			new Map(this.labels),
+			strategy,
+		);
+	}
+}
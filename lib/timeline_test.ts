@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { ConstantAnimation, Duration } from "./core.ts";
+import { tweenNumber } from "./std.ts";
+import { Timeline } from "./timeline.ts";
+
+const frames = (frame: number) => new Duration(frame);
+const clip = (duration: number) =>
+	new ConstantAnimation(duration, frames(duration));
+
+/** The start time of each added animation, in frames. */
+const starts = (timeline: Timeline<number>) =>
+	timeline.build().children().map((child) => child.start?.frame);
+
+Deno.test("places animations one after another by default", () => {
+	const timeline = new Timeline<number>().add(clip(10)).add(clip(20));
+	assert.deepEqual(starts(timeline), [0, 10]);
+	assert.equal(timeline.duration.frame, 30);
+});
+
+Deno.test("resolves positions relative to the previous animation", () => {
+	const timeline = new Timeline<number>()
+		.add(clip(10))
+		.add(clip(20), "<")
+		.add(clip(5), "<+=5")
+		.add(clip(5), ">")
+		.add(clip(5), ">-=2")
+		.add(clip(5), "+=10");
+	assert.deepEqual(starts(timeline), [0, 0, 5, 10, 13, 30]);
+	assert.equal(timeline.duration.frame, 35);
+});
+
+Deno.test("resolves positions relative to labels", () => {
+	const timeline = new Timeline<number>()
+		.add(clip(10))
+		.addLabel("intro")
+		.addLabel("outro", frames(40))
+		.add(clip(5), "intro+=2.5")
+		.add(clip(5), "outro-=10")
+		.addAll([clip(1), clip(2)], "intro");
+	assert.deepEqual(starts(timeline), [0, 12.5, 30, 10, 10]);
+	assert.equal(timeline.duration.frame, 40);
+	const animation = timeline.build();
+	assert.equal(animation.labelTime("intro").frame, 10);
+	assert.throws(() => animation.labelTime("credits"), /Unknown/);
+});
+
+Deno.test("rejects unknown labels and negative positions", () => {
+	const timeline = new Timeline<number>().add(clip(10));
+	assert.throws(() => timeline.resolve("credits+=1"), /"credits"/);
+	assert.throws(() => timeline.resolve("<-=1"), RangeError);
+	assert.throws(() => timeline.resolve(frames(-1)), RangeError);
+	assert.equal(timeline.resolve(">").frame, 10);
+});
+
+Deno.test("evaluates each animation in its own window", () => {
+	const animation = new Timeline<number>()
+		.add(tweenNumber({ from: 0, to: 10, duration: frames(10) }))
+		.add(tweenNumber({ from: 100, to: 200, duration: frames(10) }), "<+=5")
+		.build();
+	assert.deepEqual(animation.at(frames(0)), [0, 100]);
+	assert.deepEqual(animation.at(frames(10)), [10, 150]);
+	assert.deepEqual(animation.at(frames(20)), [10, 200]);
+});